@@ -0,0 +1,111 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+const run = promisify(execFile);
+
+export interface ChangedFile {
+  path: string;
+  // Porcelain v1 status letters, e.g. "M " (staged), " M" (unstaged), "??" (untracked).
+  status: string;
+  added: number;
+  deleted: number;
+}
+
+export interface WorkingTreeReport {
+  root: string;
+  branch: string;
+  // Null in a repository without commits.
+  lastCommitAt: number | null;
+  dirty: ChangedFile[];
+  untracked: ChangedFile[];
+}
+
+export interface AtomicLimits {
+  maxFiles: number;
+  maxLines: number;
+}
+
+// Phase 3: one small component or function per prompt. Beyond this it is not one unit.
+export const DEFAULT_ATOMIC_LIMITS: AtomicLimits = { maxFiles: 5, maxLines: 300 };
+
+// Untracked files are counted by reading them; anything bigger is not hand-written source.
+const MAX_COUNTED_BYTES = 1_000_000;
+
+const git = async (cwd: string, args: string[]): Promise<string> => {
+  const { stdout } = await run('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+};
+
+/** `git status --porcelain=v1 -z`: renames carry the old path as an extra NUL-separated field. */
+export const parsePorcelain = (output: string): { status: string; path: string }[] => {
+  const fields = output.split('\0');
+  const entries: { status: string; path: string }[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.length < 4) continue;
+    const status = field.slice(0, 2);
+    entries.push({ status, path: field.slice(3) });
+    if (status.includes('R') || status.includes('C')) i++;
+  }
+  return entries;
+};
+
+/** `git diff --numstat -z`: binary files report "-" for both counts and count as zero lines. */
+export const parseNumstat = (output: string): Map<string, { added: number; deleted: number }> => {
+  const stats = new Map<string, { added: number; deleted: number }>();
+  const fields = output.split('\0');
+  for (let i = 0; i < fields.length; i++) {
+    const match = fields[i].match(/^(-|\d+)\t(-|\d+)\t(.*)$/s);
+    if (!match) continue;
+    // A rename leaves the path empty and puts old and new path in the next two fields.
+    const file = match[3] || fields[(i += 2)];
+    stats.set(file, { added: Number(match[1]) || 0, deleted: Number(match[2]) || 0 });
+  }
+  return stats;
+};
+
+const countLines = (file: string): number => {
+  try {
+    if (fs.statSync(file).size > MAX_COUNTED_BYTES) return 0;
+    const content = fs.readFileSync(file, 'utf-8');
+    return content ? content.split('\n').length - (content.endsWith('\n') ? 1 : 0) : 0;
+  } catch {
+    return 0;
+  }
+};
+
+/** Throws when `dir` is not inside a git working tree or git is not installed. */
+export const inspectWorkingTree = async (dir: string): Promise<WorkingTreeReport> => {
+  const root = (await git(dir, ['rev-parse', '--show-toplevel'])).trim();
+  const branch = (await git(root, ['rev-parse', '--abbrev-ref', 'HEAD']).catch(() => 'HEAD')).trim();
+  const lastCommit = await git(root, ['log', '-1', '--format=%ct']).catch(() => '');
+  const lastCommitAt = lastCommit.trim() ? Number(lastCommit.trim()) * 1000 : null;
+
+  const entries = parsePorcelain(await git(root, ['status', '--porcelain=v1', '-z', '--untracked-files=all']));
+  // Staged and unstaged changes together, measured against the last commit.
+  const numstat = lastCommitAt === null
+    ? new Map<string, { added: number; deleted: number }>()
+    : parseNumstat(await git(root, ['diff', 'HEAD', '--numstat', '-z']));
+
+  const dirty: ChangedFile[] = [];
+  const untracked: ChangedFile[] = [];
+  for (const entry of entries) {
+    if (entry.status === '??') {
+      untracked.push({ ...entry, added: countLines(path.join(root, entry.path)), deleted: 0 });
+    } else {
+      dirty.push({ ...entry, ...(numstat.get(entry.path) || { added: 0, deleted: 0 }) });
+    }
+  }
+
+  return { root, branch, lastCommitAt, dirty, untracked };
+};
+
+export const changedLines = (files: ChangedFile[]): number =>
+  files.reduce((sum, file) => sum + file.added + file.deleted, 0);
+
+export const exceedsAtomicUnit = (report: WorkingTreeReport, limits: AtomicLimits): boolean => {
+  const files = [...report.dirty, ...report.untracked];
+  return files.length > limits.maxFiles || changedLines(files) > limits.maxLines;
+};
@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { HouseRule, LLMSettings, PlannerResponse, ProjectKind, StepGranularity } from '../types';
+import { generateExecutionPlan } from '../services/geminiService';
+import { PROVIDER_DEFAULTS } from '../services/providers';
+import { isProviderId } from '../services/settingsStore';
+import { formatIssue, validatePlannerResponse } from '../services/planValidator';
+import { planToJson } from '../services/planExport';
+import { buildContextPayload, collectRules, payloadFromStep } from '../services/contextPayload';
+import { isPlanComplete, nextStepIndex } from '../services/stepProgress';
+import { parseHouseRules } from '../services/houseRules';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from '../services/promptTemplates';
+import { EMPTY_CONSTRAINTS, normalizeConstraints, PROJECT_KINDS, STEP_GRANULARITIES } from '../services/planConstraints';
+import { getPhases } from '../content';
+import { DEFAULT_LOCALE, getMessages, isLocale, Locale } from '../i18n/locales';
+import {
+  changedLines,
+  ChangedFile,
+  DEFAULT_ATOMIC_LIMITS,
+  exceedsAtomicUnit,
+  inspectWorkingTree,
+  WorkingTreeReport
+} from './git';
+
+// Same limit as the Context Payload builder's file picker.
+const MAX_PAYLOAD_FILE_BYTES = 1_000_000;
+
+const useColor = process.stdout.isTTY && !process.env.NO_COLOR;
+const paint = (code: number) => (text: string) => (useColor ? `\x1b[${code}m${text}\x1b[0m` : text);
+const red = paint(31);
+const green = paint(32);
+const yellow = paint(33);
+const dim = paint(2);
+
+// The shell locale decides unless --lang is given.
+const defaultLocale = (): Locale => {
+  const tag = (process.env.LC_ALL || process.env.LANG || '').split(/[_.-]/)[0].toLowerCase();
+  return isLocale(tag) ? tag : DEFAULT_LOCALE;
+};
+
+const formatAge = (ms: number): string => {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+const listFiles = (files: ChangedFile[], lang: Locale) =>
+  files.map(file => `  ${dim(file.status)} ${file.path} ${dim(`(${getMessages(lang).cli.lines(file.added + file.deleted)})`)}`);
+
+/** Prints the working-tree report; returns true when it is safe to prompt. */
+const printTreeReport = (
+  report: WorkingTreeReport,
+  lang: Locale,
+  limits = DEFAULT_ATOMIC_LIMITS,
+  write: (text: string) => void = console.log
+): boolean => {
+  const t = getMessages(lang).cli;
+  const changed = [...report.dirty, ...report.untracked];
+  const lines: string[] = [`${t.branch}: ${report.branch}`];
+
+  if (report.lastCommitAt === null) {
+    lines.push(red(t.noCommits));
+  } else {
+    lines.push(`${t.lastCommit}: ${t.ago(formatAge(Date.now() - report.lastCommitAt))}`);
+  }
+
+  if (report.dirty.length > 0) lines.push('', yellow(`${t.dirty} (${report.dirty.length})`), ...listFiles(report.dirty, lang));
+  if (report.untracked.length > 0) lines.push('', yellow(`${t.untracked} (${report.untracked.length})`), ...listFiles(report.untracked, lang));
+
+  const safe = report.lastCommitAt !== null && changed.length === 0;
+  lines.push('');
+  if (safe) {
+    lines.push(green(t.clean));
+  } else if (changed.length > 0) {
+    lines.push(yellow(t.commitFirst));
+  }
+  if (exceedsAtomicUnit(report, limits)) {
+    lines.push(red(t.tooLarge(changed.length, changedLines(changed), limits.maxFiles, limits.maxLines)));
+  }
+
+  write(lines.join('\n'));
+  return safe;
+};
+
+const readPlan = (file: string, lang: Locale): PlannerResponse | null => {
+  const t = getMessages(lang).cli;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    console.error(red(`${t.invalidPlan(file)} ${(error as Error).message}`));
+    return null;
+  }
+  // Accept a bare PlannerResponse (Workshop JSON export) or a saved-plan record around one.
+  const candidate = parsed && typeof parsed === 'object' && 'plan' in parsed ? (parsed as { plan: unknown }).plan : parsed;
+  const { value, issues } = validatePlannerResponse(candidate);
+  if (!value) {
+    console.error(red(t.invalidPlan(file)));
+    issues.forEach(issue => console.error(`  ${formatIssue(issue)}`));
+  }
+  return value;
+};
+
+// The Workshop's House Rules export, JSON or Markdown.
+const readHouseRules = (file: string, lang: Locale): HouseRule[] | null => {
+  const t = getMessages(lang).cli;
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    console.error(red(`${t.invalidRules(file)} ${(error as Error).message}`));
+    return null;
+  }
+  const { value, issues } = parseHouseRules(text);
+  if (!value) {
+    console.error(red(t.invalidRules(file)));
+    issues.forEach(issue => console.error(`  ${formatIssue(issue)}`));
+  }
+  return value;
+};
+
+const isInside = (root: string, fullPath: string): boolean => {
+  const relative = path.relative(root, fullPath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+/**
+ * Context file names come from the model or a plan file, so anything resolving outside
+ * the working tree (absolute paths, `../`, symlinks out) is refused, not read.
+ */
+const isReadable = (root: string, file: string): boolean => {
+  const fullPath = path.resolve(root, file);
+  if (!isInside(root, fullPath)) return false;
+  try {
+    return isInside(fs.realpathSync(root), fs.realpathSync(fullPath));
+  } catch {
+    // Missing files are reported as missing, not as outside the tree.
+    return true;
+  }
+};
+
+const readSource = (root: string, file: string): string | null => {
+  const fullPath = path.resolve(root, file);
+  try {
+    return fs.statSync(fullPath).size <= MAX_PAYLOAD_FILE_BYTES ? fs.readFileSync(fullPath, 'utf-8') : null;
+  } catch {
+    return null;
+  }
+};
+
+// Same keys as the web build: `.env` first (without overriding the shell), and
+// GEMINI_API_KEY as the name the Gemini provider reads as API_KEY.
+const loadEnv = () => {
+  const envFile = path.resolve('.env');
+  if (typeof process.loadEnvFile === 'function' && fs.existsSync(envFile)) process.loadEnvFile(envFile);
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+};
+
+const parseOptions = () =>
+  parseArgs({
+    allowPositionals: true,
+    options: {
+      lang: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      rules: { type: 'string' },
+      template: { type: 'string' },
+      stack: { type: 'string' },
+      module: { type: 'string', multiple: true },
+      constraint: { type: 'string', multiple: true },
+      granularity: { type: 'string' },
+      project: { type: 'string' },
+      out: { type: 'string' },
+      'max-files': { type: 'string' },
+      'max-lines': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+const main = async (): Promise<number> => {
+  loadEnv();
+  let options: ReturnType<typeof parseOptions>;
+  try {
+    options = parseOptions();
+  } catch (error) {
+    // Unknown flags and missing option values; --lang is not parsed yet, so the shell locale decides.
+    console.error(red((error as Error).message));
+    console.log(getMessages(defaultLocale()).cli.usage);
+    return 2;
+  }
+  const { values, positionals } = options;
+
+  const lang = values.lang && isLocale(values.lang) ? values.lang : defaultLocale();
+  const t = getMessages(lang).cli;
+  const [command, ...args] = positionals;
+
+  if (!command || values.help) {
+    console.log(t.usage);
+    return command ? 0 : 2;
+  }
+
+  switch (command) {
+    case 'check': {
+      const dir = path.resolve(args[0] || '.');
+      const limits = {
+        maxFiles: Number(values['max-files']) || DEFAULT_ATOMIC_LIMITS.maxFiles,
+        maxLines: Number(values['max-lines']) || DEFAULT_ATOMIC_LIMITS.maxLines,
+      };
+      let report: WorkingTreeReport;
+      try {
+        report = await inspectWorkingTree(dir);
+      } catch {
+        console.error(red(t.notRepo(dir)));
+        return 2;
+      }
+      return printTreeReport(report, lang, limits) ? 0 : 1;
+    }
+
+    case 'plan': {
+      const task = args.join(' ').trim();
+      if (!task) {
+        console.error(t.missingTask);
+        return 2;
+      }
+      const provider = values.provider || 'gemini';
+      if (!isProviderId(provider)) {
+        console.error(red(t.invalidChoice('--provider', provider, Object.keys(PROVIDER_DEFAULTS))));
+        return 2;
+      }
+      const settings: LLMSettings = {
+        ...PROVIDER_DEFAULTS[provider],
+        ...(values.model ? { model: values.model } : {}),
+        ...(values['base-url'] ? { baseUrl: values['base-url'] } : {}),
+      };
+      const houseRules = values.rules ? readHouseRules(values.rules, lang) : [];
+      if (!houseRules) return 2;
+      const template = values.template
+        ? BUILT_IN_TEMPLATES.find(entry => entry.id === values.template)
+        : DEFAULT_TEMPLATE;
+      if (!template) {
+        console.error(red(t.unknownTemplate(values.template || '', BUILT_IN_TEMPLATES.map(entry => entry.id))));
+        return 2;
+      }
+      const granularity = (values.granularity || EMPTY_CONSTRAINTS.granularity) as StepGranularity;
+      if (!STEP_GRANULARITIES.includes(granularity)) {
+        console.error(red(t.invalidChoice('--granularity', granularity, STEP_GRANULARITIES)));
+        return 2;
+      }
+      const project = (values.project || null) as ProjectKind | null;
+      if (project && !PROJECT_KINDS.includes(project)) {
+        console.error(red(t.invalidChoice('--project', project, PROJECT_KINDS)));
+        return 2;
+      }
+      const constraints = normalizeConstraints({
+        techStack: values.stack || '',
+        existingModules: values.module || [],
+        hardConstraints: values.constraint || [],
+        granularity,
+        project,
+      });
+      const result = await generateExecutionPlan(task, lang, settings, { houseRules, template, constraints });
+      if (result.status === 'failed') {
+        console.error(red(getMessages(lang).errors[result.kind]));
+        result.reasons.forEach(reason => console.error(dim(`  ${reason}`)));
+        return 1;
+      }
+      result.plan.steps.forEach((step, idx) => {
+        console.log(`${idx + 1}. ${step.title}${step.size ? dim(` [${step.size}]`) : ''}`);
+        console.log(dim(`   ${step.promptStrategy}`));
+      });
+      if (values.out) {
+        try {
+          fs.writeFileSync(values.out, planToJson(result.plan));
+        } catch (error) {
+          console.error(red(`${t.saveFailed(values.out)} ${(error as Error).message}`));
+          return 1;
+        }
+        console.log(green(t.saved(values.out)));
+      }
+      return 0;
+    }
+
+    case 'next': {
+      if (!args[0]) {
+        console.error(t.missingPlan);
+        return 2;
+      }
+      const plan = readPlan(args[0], lang);
+      if (!plan) return 2;
+
+      const index = nextStepIndex(plan.steps);
+      if (index === null) {
+        console.log(isPlanComplete(plan.steps) ? green(t.allSettled) : yellow(t.blocked));
+        return 0;
+      }
+
+      // The tree report goes to stderr so stdout stays a clean, pipeable payload.
+      const dir = path.resolve(args[1] || '.');
+      const report = await inspectWorkingTree(dir).catch(() => null);
+      if (report) printTreeReport(report, lang, DEFAULT_ATOMIC_LIMITS, text => console.error(`${text}\n`));
+
+      const step = plan.steps[index];
+      const phases = getPhases(lang);
+      const draft = payloadFromStep(step, phases, lang);
+      const root = report?.root || dir;
+      for (const file of draft.files) {
+        if (!isReadable(root, file.name)) {
+          console.error(yellow(t.outsideTree(file.name)));
+          continue;
+        }
+        const content = readSource(root, file.name);
+        if (content === null) console.error(yellow(t.missingFile(file.name)));
+        else file.content = content;
+      }
+
+      console.error(green(t.nextStep(index + 1, plan.steps.length, step.title)));
+      console.log(buildContextPayload({
+        files: draft.files,
+        rules: collectRules(phases).filter(rule => draft.ruleKeys.includes(rule.key)).map(rule => rule.text),
+        task: draft.task,
+      }, lang));
+      return 0;
+    }
+
+    default:
+      console.error(red(t.unknownCommand(command)));
+      console.log(t.usage);
+      return 2;
+  }
+};
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: Error) => {
+    console.error(red(`${getMessages(defaultLocale()).cli.failed} ${error.message}`));
+    process.exitCode = 1;
+  });
@@ -0,0 +1,21 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Node build of the `npm run sop` companion CLI. Unlike the web build nothing is inlined
+// through `define`: `process.env` is read when the CLI runs.
+export default defineConfig(() => {
+  const root = path.resolve(__dirname, '..');
+  return {
+    root,
+    logLevel: 'warn' as const,
+    build: {
+      ssr: path.resolve(__dirname, 'vibe.ts'),
+      outDir: path.resolve(root, 'dist/cli'),
+      emptyOutDir: true,
+      target: 'node18',
+      rollupOptions: {
+        output: { entryFileNames: 'vibe.js' },
+      },
+    },
+  };
+});
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, Download, Loader2, Sparkles, XCircle } from 'lucide-react';
+import { ClosingDocs, LLMSettings, PlannerResponse } from '../types';
+import { formatLocation, parseReviewInput } from '../services/codeReview';
+import { closingToMarkdown, envTableMarkdown, findLeftovers } from '../services/closingProtocol';
+import { generateClosingDocs } from '../services/geminiService';
+import { downloadText, exportFileName } from '../services/planExport';
+import { useI18n } from '../i18n/I18nProvider';
+import CopyButton from './CopyButton';
+
+interface ClosingProtocolProps {
+  plan: PlannerResponse;
+  // The requirement the plan was made for, as sent to the model.
+  task: string;
+  // Shown in the exported file's heading and name.
+  title: string;
+  settings: LLMSettings;
+}
+
+const ClosingProtocol: React.FC<ClosingProtocolProps> = ({ plan, task, title, settings }) => {
+  const { locale, messages } = useI18n();
+  const [code, setCode] = useState('');
+  const [docs, setDocs] = useState<ClosingDocs | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const t = messages.closing;
+  const checks = messages.reviewer.checks;
+  const leftovers = useMemo(() => findLeftovers(parseReviewInput(code)), [code]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const result = await generateClosingDocs(task, plan, code, locale, settings);
+      if (result.status === 'failed') {
+        setError(messages.errors[result.kind]);
+      } else {
+        setDocs(result.docs);
+      }
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!docs) return;
+    downloadText(closingToMarkdown(docs, leftovers, { title, lang: locale }), exportFileName(`${title}-closing`, 'md'), 'text/markdown');
+  };
+
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+  const sections = docs
+    ? [
+        { label: t.readme, text: docs.readme },
+        { label: t.envVars, text: envTableMarkdown(docs.envVars, locale) || t.noEnvVars },
+        { label: t.architecture, text: docs.architecture },
+      ]
+    : [];
+
+  return (
+    <div className="bg-emerald-950/10 border border-emerald-500/20 rounded-xl p-4 md:p-6 space-y-4 animate-in fade-in duration-300">
+      <div>
+        <h4 className="text-emerald-400 font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+          <CheckCircle2 className="w-4 h-4" /> {t.title}
+        </h4>
+        <p className="mt-1 text-sm text-vibe-muted">{t.desc}</p>
+      </div>
+
+      <textarea
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder={t.placeholder}
+        spellCheck={false}
+        className="w-full h-40 bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs resize-y"
+      />
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <span className={labelClass}>{t.leftovers}</span>
+          <span className="text-[10px] font-mono text-vibe-muted">{t.leftoversHint}</span>
+        </div>
+        {!code.trim() ? (
+          <p className="text-sm text-vibe-muted">{t.noCode}</p>
+        ) : leftovers.length === 0 ? (
+          <p className="text-sm text-emerald-400">{t.noLeftovers}</p>
+        ) : (
+          <ul className="space-y-1 text-xs font-mono">
+            {leftovers.map((finding, idx) => (
+              <li key={idx} className="flex flex-wrap gap-2 text-amber-300">
+                <span className="text-slate-500">{formatLocation(finding.file, finding.line)}</span>
+                <span>{checks[finding.check].title}</span>
+                <span className="text-slate-400">{finding.match}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {docs && (
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-1.5 text-xs font-mono text-vibe-muted hover:text-white bg-white/5 hover:bg-white/10 px-2.5 py-1.5 rounded border border-white/10 transition-colors"
+          >
+            <Download className="w-3.5 h-3.5" /> {t.download}
+          </button>
+        )}
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="bg-vibe-accent hover:bg-indigo-400 text-white px-4 py-2 rounded-md font-semibold text-sm flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {generating ? <Loader2 className="animate-spin w-4 h-4" /> : <Sparkles className="w-4 h-4" />}
+          {generating ? t.generating : t.generate}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-950/30 border border-red-500/30 rounded-lg flex items-center gap-3">
+          <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {sections.map(section => (
+        <div key={section.label} className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className={labelClass}>{section.label}</span>
+            <CopyButton text={section.text} label={t.copy} copiedLabel={t.copied} />
+          </div>
+          <pre className="p-4 max-h-72 overflow-auto rounded-lg bg-black/30 border border-slate-700 font-mono text-xs text-slate-300 whitespace-pre-wrap">
+            {section.text}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ClosingProtocol;
@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FilePlus2, Plus, Trash2, Upload } from 'lucide-react';
+import { PlanStep, SOPPhase } from '../types';
+import {
+  budgetStatus,
+  BudgetStatus,
+  buildContextPayload,
+  collectRules,
+  CONTEXT_BUDGETS,
+  createPayloadFile,
+  estimateTokens,
+  PayloadDraft,
+  PayloadFile,
+  payloadFromStep
+} from '../services/contextPayload';
+import { loadLLMSettings } from '../services/settingsStore';
+import { useI18n } from '../i18n/I18nProvider';
+import CopyButton from './CopyButton';
+
+interface ContextPayloadBuilderProps {
+  // SOP content in the active language: the rules that can be restated.
+  phases: SOPPhase[];
+  // Set when a plan step asks to be turned into a payload; each request is a new object.
+  seed: { step: PlanStep } | null;
+}
+
+// Anything bigger is almost certainly not source code and would swamp the payload.
+const MAX_FILE_BYTES = 1_000_000;
+
+const budgetStyles: Record<BudgetStatus, string> = {
+  ok: 'text-emerald-400',
+  near: 'text-amber-400',
+  over: 'text-red-400',
+};
+
+const emptyDraft = (): PayloadDraft => ({ files: [createPayloadFile('types.ts')], ruleKeys: [], task: '' });
+
+const ContextPayloadBuilder: React.FC<ContextPayloadBuilderProps> = ({ phases, seed }) => {
+  const { locale, messages } = useI18n();
+  const [draft, setDraft] = useState<PayloadDraft>(emptyDraft);
+  const [budgetModel, setBudgetModel] = useState(() => {
+    const model = loadLLMSettings().model;
+    return CONTEXT_BUDGETS.some(budget => budget.model === model) ? model : CONTEXT_BUDGETS[0].model;
+  });
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const pickerRef = useRef<HTMLInputElement>(null);
+
+  const t = messages.payloadBuilder;
+
+  useEffect(() => {
+    if (!seed) return;
+    setDraft(payloadFromStep(seed.step, phases, locale));
+    setSkipped([]);
+    rootRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [seed]);
+
+  const rules = useMemo(() => collectRules(phases), [phases]);
+  const output = buildContextPayload({
+    files: draft.files,
+    rules: rules.filter(rule => draft.ruleKeys.includes(rule.key)).map(rule => rule.text),
+    task: draft.task,
+  }, locale);
+  const tokens = estimateTokens(output);
+  const budget = CONTEXT_BUDGETS.find(entry => entry.model === budgetModel) || CONTEXT_BUDGETS[0];
+  const status = budgetStatus(tokens, budget.tokens);
+
+  const updateFile = (id: string, patch: Partial<PayloadFile>) =>
+    setDraft(prev => ({ ...prev, files: prev.files.map(file => (file.id === id ? { ...file, ...patch } : file)) }));
+
+  const removeFile = (id: string) =>
+    setDraft(prev => ({ ...prev, files: prev.files.filter(file => file.id !== id) }));
+
+  const toggleRule = (key: string) =>
+    setDraft(prev => ({
+      ...prev,
+      ruleKeys: prev.ruleKeys.includes(key) ? prev.ruleKeys.filter(k => k !== key) : [...prev.ruleKeys, key],
+    }));
+
+  // Dropped or picked files fill the empty slot with the same name (e.g. a step's context file) first.
+  const addFiles = async (list: FileList | null) => {
+    if (!list) return;
+    const accepted = Array.from(list).filter(file => file.size <= MAX_FILE_BYTES);
+    setSkipped(Array.from(list).filter(file => file.size > MAX_FILE_BYTES).map(file => file.name));
+    const loaded = await Promise.all(accepted.map(async file => ({ name: file.name, content: await file.text() })));
+    setDraft(prev => {
+      const files = [...prev.files];
+      for (const { name, content } of loaded) {
+        const slot = files.findIndex(file => !file.content.trim() && (file.name === name || file.name.endsWith(`/${name}`)));
+        if (slot >= 0) files[slot] = { ...files[slot], content };
+        else files.push(createPayloadFile(name, content));
+      }
+      return { ...prev, files };
+    });
+  };
+
+  const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs";
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+
+  return (
+    <div ref={rootRef} className="w-full glass-panel rounded-2xl p-6 md:p-8 mt-8 border-t-4 border-t-vibe-accent shadow-2xl scroll-mt-24">
+      <div className="flex flex-col gap-4 mb-6">
+        <h2 className="text-2xl font-bold font-mono text-vibe-accent">
+          <span className="mr-2">📦</span>{t.title}
+        </h2>
+        <p className="text-vibe-muted">
+          {t.desc}
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <div
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          className={`space-y-3 rounded-lg border border-dashed p-4 transition-colors ${
+            dragging ? 'border-vibe-accent bg-vibe-accent/5' : 'border-slate-700'
+          }`}
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className={labelClass}>{t.files}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => pickerRef.current?.click()}
+                className="text-xs px-3 py-1.5 rounded text-vibe-muted hover:text-white hover:bg-white/5 flex items-center gap-1.5"
+              >
+                <Upload className="w-3.5 h-3.5" /> {t.pick}
+              </button>
+              <button
+                onClick={() => setDraft(prev => ({ ...prev, files: [...prev.files, createPayloadFile()] }))}
+                className="text-xs px-3 py-1.5 rounded text-vibe-muted hover:text-white hover:bg-white/5 flex items-center gap-1.5"
+              >
+                <Plus className="w-3.5 h-3.5" /> {t.addSnippet}
+              </button>
+              <input
+                ref={pickerRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+
+          {draft.files.length === 0 && (
+            <p className="flex items-center justify-center gap-2 py-6 text-sm text-vibe-muted">
+              <FilePlus2 className="w-4 h-4" /> {t.drop}
+            </p>
+          )}
+
+          {draft.files.map(file => (
+            <div key={file.id} className="bg-slate-900/40 border border-slate-700 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={file.name}
+                  onChange={(e) => updateFile(file.id, { name: e.target.value })}
+                  placeholder={t.fileName}
+                  className={inputClass}
+                />
+                <span className="text-[10px] font-mono text-vibe-muted whitespace-nowrap">≈ {estimateTokens(file.content)} {t.tokens}</span>
+                <button
+                  onClick={() => removeFile(file.id)}
+                  className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+                  title={t.removeFile}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <textarea
+                value={file.content}
+                onChange={(e) => updateFile(file.id, { content: e.target.value })}
+                placeholder={t.fileContent}
+                rows={5}
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+          ))}
+
+          {skipped.length > 0 && (
+            <p className="text-xs text-amber-300">{t.tooLarge} {skipped.join(', ')}</p>
+          )}
+        </div>
+
+        <details className="bg-slate-900/40 rounded-lg border border-slate-700">
+          <summary className="cursor-pointer select-none px-4 py-3 flex items-center gap-2 text-sm text-slate-300">
+            {t.rules}
+            <span className="ml-auto font-mono text-xs text-vibe-muted">{t.selected(draft.ruleKeys.length)}</span>
+          </summary>
+          <div className="px-4 pb-4 space-y-4 max-h-80 overflow-y-auto scrollbar-hide">
+            {phases.filter(phase => rules.some(rule => rule.phaseId === phase.id)).map(phase => (
+              <div key={phase.id}>
+                <div className={`${labelClass} mb-2`}>{phase.title}</div>
+                <div className="space-y-1.5">
+                  {rules.filter(rule => rule.phaseId === phase.id).map(rule => (
+                    <label key={rule.key} className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={draft.ruleKeys.includes(rule.key)}
+                        onChange={() => toggleRule(rule.key)}
+                        className="mt-1 accent-indigo-500"
+                      />
+                      <span>{rule.text}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </details>
+
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t.task}</span>
+          <textarea
+            value={draft.task}
+            onChange={(e) => setDraft(prev => ({ ...prev, task: e.target.value }))}
+            placeholder={t.taskPlaceholder}
+            rows={4}
+            className={`${inputClass} resize-y`}
+          />
+        </label>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-3 text-xs font-mono">
+              <span className={budgetStyles[status]}>
+                ≈ {tokens.toLocaleString()} / {budget.tokens.toLocaleString()} {t.tokens}
+              </span>
+              <select
+                value={budgetModel}
+                onChange={(e) => setBudgetModel(e.target.value)}
+                className="bg-slate-900/50 border border-slate-700 rounded-md px-2 py-1 text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-vibe-glow"
+                aria-label={t.budget}
+              >
+                {CONTEXT_BUDGETS.map(entry => <option key={entry.model} value={entry.model}>{entry.model}</option>)}
+              </select>
+            </div>
+            <CopyButton text={output} label={t.copy} copiedLabel={t.copied} />
+          </div>
+
+          {status !== 'ok' && (
+            <div className="p-3 bg-amber-950/30 border border-amber-500/30 rounded-lg flex items-center gap-3">
+              <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+              <p className="text-amber-300 text-sm">{status === 'over' ? t.overBudget : t.nearBudget}</p>
+            </div>
+          )}
+
+          <pre className="p-4 max-h-96 overflow-auto rounded-lg bg-black/30 border border-slate-700 font-mono text-xs text-slate-300 whitespace-pre-wrap">
+            {output}
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContextPayloadBuilder;
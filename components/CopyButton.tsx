@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+
+interface CopyButtonProps {
+  text: string | (() => string);
+  label: string;
+  copiedLabel: string;
+  className?: string;
+}
+
+const COPIED_RESET_MS = 1500;
+
+const CopyButton: React.FC<CopyButtonProps> = ({ text, label, copiedLabel, className = '' }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(typeof text === 'function' ? text() : text);
+      setCopied(true);
+    } catch {
+      // Clipboard access denied (insecure context or permissions); nothing useful to show.
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      title={copied ? copiedLabel : label}
+      className={`flex items-center gap-1.5 text-xs font-mono px-2 py-1 rounded border border-white/10 transition-colors ${
+        copied ? 'text-emerald-400 border-emerald-500/30' : 'text-vibe-muted hover:text-white hover:bg-white/5'
+      } ${className}`}
+    >
+      {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+      {copied ? copiedLabel : label}
+    </button>
+  );
+};
+
+export default CopyButton;
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowUpLeft, Loader2, Sparkles, XCircle } from 'lucide-react';
+import { LogicReview, PhaseId, ReviewSeverity, SOPPhase } from '../types';
+import {
+  CheckFinding,
+  CheckSeverity,
+  formatLocation,
+  isUnifiedDiff,
+  parseReviewInput,
+  ReviewCheckId,
+  runReviewChecks
+} from '../services/codeReview';
+import { reviewCode } from '../services/geminiService';
+import { loadLLMSettings } from '../services/settingsStore';
+import { formatRoute } from '../routing/routes';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface DiffReviewerProps {
+  // SOP content in the active language, for the link to Phase 4.
+  phases: SOPPhase[];
+}
+
+const severityStyles: Record<CheckSeverity, string> = {
+  error: 'bg-red-950/30 border-red-500/30 text-red-300',
+  warning: 'bg-amber-950/30 border-amber-500/30 text-amber-300',
+};
+
+const reviewSeverityStyles: Record<ReviewSeverity, string> = {
+  high: 'bg-red-950/40 text-red-300 border-red-500/40',
+  medium: 'bg-amber-950/40 text-amber-300 border-amber-500/40',
+  low: 'bg-slate-800/60 text-slate-300 border-slate-500/40',
+};
+
+// One card per check, in the order the checks first fired.
+const groupByCheck = (findings: CheckFinding[]) => {
+  const groups = new Map<ReviewCheckId, CheckFinding[]>();
+  findings.forEach(finding => groups.set(finding.check, [...(groups.get(finding.check) || []), finding]));
+  return Array.from(groups.values());
+};
+
+const DiffReviewer: React.FC<DiffReviewerProps> = ({ phases }) => {
+  const { locale, messages } = useI18n();
+  const [code, setCode] = useState('');
+  const [review, setReview] = useState<LogicReview | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const t = messages.reviewer;
+  const reviewPhase = phases.find(phase => phase.id === PhaseId.REVIEW);
+
+  const lines = useMemo(() => parseReviewInput(code), [code]);
+  const findings = useMemo(() => runReviewChecks(lines), [lines]);
+  const added = lines.filter(line => line.added);
+  const files = new Set(added.map(line => line.file)).size;
+
+  const handleCodeChange = (next: string) => {
+    setCode(next);
+    // A review of different code is stale.
+    setReview(null);
+    setError(null);
+  };
+
+  const handleReview = async () => {
+    setReviewing(true);
+    setError(null);
+    setReview(null);
+    const reported = findings.map(finding =>
+      `${formatLocation(finding.file, finding.line)} ${t.checks[finding.check].title}: ${finding.match}`);
+    try {
+      // Uses whatever provider is configured in the Planner.
+      const result = await reviewCode(code, reported, locale, loadLLMSettings());
+      if (result.status === 'failed') {
+        setError(messages.errors[result.kind]);
+      } else {
+        setReview(result.review);
+      }
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  return (
+    <div className="w-full glass-panel rounded-2xl p-6 md:p-8 mt-8 border-t-4 border-t-vibe-accent shadow-2xl">
+      <div className="flex flex-col gap-4 mb-6">
+        <h2 className="text-2xl font-bold font-mono text-vibe-accent">
+          <span className="mr-2">🛡️</span>{t.title}
+        </h2>
+        <p className="text-vibe-muted">
+          {t.desc}
+        </p>
+      </div>
+
+      <textarea
+        value={code}
+        onChange={(e) => handleCodeChange(e.target.value)}
+        placeholder={t.placeholder}
+        spellCheck={false}
+        className="w-full h-48 bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs resize-y"
+      />
+
+      {code.trim() && (
+        <div className="mt-6 space-y-4 animate-in fade-in duration-300">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs font-bold text-vibe-muted uppercase tracking-wider">{t.staticChecks}</span>
+              <span className="text-xs font-mono text-vibe-muted">
+                {isUnifiedDiff(code) ? t.diffInput(added.length, files) : t.snippetInput(lines.length)}
+              </span>
+              {reviewPhase && (
+                <a
+                  href={formatRoute({ name: 'phase', locale, phase: reviewPhase.id })}
+                  className="text-xs font-mono text-vibe-accent hover:text-white flex items-center gap-1"
+                >
+                  {t.seePhase} {reviewPhase.title} <ArrowUpLeft className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+            <button
+              onClick={handleReview}
+              disabled={reviewing}
+              className="bg-vibe-accent hover:bg-indigo-400 text-white px-4 py-2 rounded-md font-semibold text-sm flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {reviewing ? <Loader2 className="animate-spin w-4 h-4" /> : <Sparkles className="w-4 h-4" />}
+              {reviewing ? t.reviewing : t.review}
+            </button>
+          </div>
+
+          {findings.length === 0 ? (
+            <p className="text-sm text-emerald-400">{t.clean}</p>
+          ) : (
+            <ul className="space-y-3">
+              {groupByCheck(findings).map(group => {
+                const { check, severity } = group[0];
+                return (
+                  <li key={check} className={`p-4 rounded-lg border ${severityStyles[severity]}`}>
+                    <div className="flex items-center gap-2 font-semibold text-sm mb-1">
+                      {severity === 'error'
+                        ? <XCircle className="w-4 h-4 flex-shrink-0" />
+                        : <AlertTriangle className="w-4 h-4 flex-shrink-0" />}
+                      {t.checks[check].title}
+                      <span className="text-[10px] font-mono uppercase opacity-70">{t.severity[severity]}</span>
+                    </div>
+                    <p className="text-sm text-slate-300">{t.checks[check].advice}</p>
+                    <ul className="mt-2 space-y-0.5 text-xs font-mono text-slate-400">
+                      {group.map((finding, idx) => (
+                        <li key={idx}>
+                          <span className="text-slate-500">{formatLocation(finding.file, finding.line)}</span> {finding.match}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-950/30 border border-red-500/30 rounded-lg flex items-center gap-3">
+              <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          )}
+
+          {review && (
+            <div className="bg-slate-900/40 border border-slate-700 rounded-xl overflow-hidden">
+              <div className="p-4 border-b border-slate-700">
+                <div className="text-[10px] font-bold text-vibe-muted uppercase tracking-wider mb-2">{t.logicReview}</div>
+                <p className="text-sm text-slate-200">{review.summary}</p>
+              </div>
+              {review.findings.length === 0 ? (
+                <p className="p-4 text-sm text-vibe-muted">{t.noFindings}</p>
+              ) : (
+                <ul className="divide-y divide-slate-700/60">
+                  {review.findings.map((finding, idx) => (
+                    <li key={idx} className="p-4 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`text-[10px] font-mono px-2 py-0.5 rounded-full border ${reviewSeverityStyles[finding.severity]}`}>
+                          {t.reviewSeverity[finding.severity]}
+                        </span>
+                        <span className="font-semibold text-sm text-white">{finding.title}</span>
+                        <span className="ml-auto font-mono text-xs text-vibe-muted">
+                          {finding.line > 0 ? formatLocation(finding.file, finding.line) : finding.file || t.wholeChange}
+                        </span>
+                      </div>
+                      <p className="text-sm text-slate-300">{finding.detail}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffReviewer;
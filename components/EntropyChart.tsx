@@ -1,35 +1,51 @@
 import React from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { AISession } from '../types';
+import { entropyPoints } from '../services/sessionLog';
+import { useI18n } from '../i18n/I18nProvider';
 
-const data = [
-  { step: 'Start', vibe: 10, chaos: 10 },
-  { step: 'Prompt 1', vibe: 30, chaos: 20 },
-  { step: 'Prompt 2', vibe: 50, chaos: 60 },
-  { step: 'Bug Fix', vibe: 60, chaos: 90 },
-  { step: 'Rewrite', vibe: 85, chaos: 20 }, // SOP kicks in
-  { step: 'Final', vibe: 95, chaos: 15 },
+interface EntropyChartProps {
+  // The session to plot; without logged interactions the chart shows sample data.
+  session?: AISession | null;
+}
+
+// Illustrative values; labels come from the message catalog.
+const values = [
+  { vibe: 10, chaos: 10 },
+  { vibe: 30, chaos: 20 },
+  { vibe: 50, chaos: 60 },
+  { vibe: 60, chaos: 90 },
+  { vibe: 85, chaos: 20 }, // SOP kicks in
+  { vibe: 95, chaos: 15 },
 ];
 
-const EntropyChart: React.FC = () => {
+const EntropyChart: React.FC<EntropyChartProps> = ({ session }) => {
+  const t = useI18n().messages.chart;
+  const live = Boolean(session && session.interactions.length > 0);
+  const data = live
+    ? entropyPoints(session!).map(point => ({ ...point, step: `#${point.turn}` }))
+    : values.map((point, idx) => ({ ...point, step: t.points[idx] }));
+
   return (
-    <div className="w-full h-64 bg-vibe-card/50 rounded-xl p-4 border border-vibe-accent/20">
-      <h3 className="text-sm font-mono text-vibe-muted mb-4 uppercase tracking-wider">Entropy vs. Vibe Trajectory</h3>
+    <div className="w-full h-64 bg-vibe-card/50 rounded-xl p-4 pb-10 border border-vibe-accent/20">
+      <h3 className="text-sm font-mono text-vibe-muted mb-1 uppercase tracking-wider">{t.title}</h3>
+      <p className="text-[10px] font-mono text-vibe-muted mb-3 truncate">{live ? session!.name : t.sample}</p>
       <ResponsiveContainer width="100%" height="100%">
         <LineChart data={data}>
           <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
           <XAxis dataKey="step" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
-          <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+          <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} domain={[0, 100]} />
           <Tooltip 
             contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #475569', color: '#f8fafc' }}
             itemStyle={{ color: '#f8fafc' }}
           />
           <Legend />
-          <Line type="monotone" dataKey="chaos" name="Typical Chaos" stroke="#ef4444" strokeWidth={2} dot={{r: 4}} />
-          <Line type="monotone" dataKey="vibe" name="Vibe SOP" stroke="#6366f1" strokeWidth={3} dot={{r: 4}} activeDot={{ r: 8 }} />
+          <Line type="monotone" dataKey="chaos" name={live ? t.sessionChaos : t.chaos} stroke="#ef4444" strokeWidth={2} dot={{r: 4}} />
+          <Line type="monotone" dataKey="vibe" name={live ? t.sessionVibe : t.vibe} stroke="#6366f1" strokeWidth={3} dot={{r: 4}} activeDot={{ r: 8 }} />
         </LineChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export default EntropyChart;
\ No newline at end of file
+export default EntropyChart;
@@ -0,0 +1,341 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, FileJson, FileText, Plus, RotateCcw, Save, Trash2, Upload, XCircle } from 'lucide-react';
+import { HouseRule, HouseRules, PhaseId, SOPPhase } from '../types';
+import {
+  createRule,
+  diffRules,
+  loadHouseRules,
+  parseHouseRules,
+  removeVersion,
+  restoreVersion,
+  RuleChangeKind,
+  rulesToJson,
+  rulesToMarkdown,
+  saveVersion,
+  setRulesEnabled,
+  starterRules,
+  updateRules
+} from '../services/houseRules';
+import { formatIssue, SOP_PHASES } from '../services/planValidator';
+import { downloadText, exportFileName } from '../services/planExport';
+import { useI18n } from '../i18n/I18nProvider';
+import { LOCALES } from '../i18n/locales';
+import CopyButton from './CopyButton';
+
+interface HouseRulesEditorProps {
+  // SOP content in the active language, for phase names and the starter rules.
+  phases: SOPPhase[];
+}
+
+// Compare target for the working copy, which has no version id.
+const CURRENT = 'current';
+
+const changeStyles: Record<RuleChangeKind, string> = {
+  added: 'bg-emerald-950/40 text-emerald-300 border-emerald-500/40',
+  removed: 'bg-red-950/40 text-red-300 border-red-500/40',
+  edited: 'bg-amber-950/40 text-amber-300 border-amber-500/40',
+  moved: 'bg-sky-950/40 text-sky-300 border-sky-500/40',
+};
+
+const HouseRulesEditor: React.FC<HouseRulesEditorProps> = ({ phases }) => {
+  const { locale, messages } = useI18n();
+  const [houseRules, setHouseRules] = useState<HouseRules>(loadHouseRules);
+  const [versionName, setVersionName] = useState('');
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState(CURRENT);
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const t = messages.houseRules;
+  const { rules, versions } = houseRules;
+  const phaseTitle = (phase: PhaseId) => phases.find(entry => entry.id === phase)?.title || phase;
+  // The newest version names the export; unsaved edits are still what gets exported.
+  const exportName = versions[0]?.name || t.draft;
+
+  const setRules = (next: HouseRule[]) => setHouseRules(updateRules(houseRules, next));
+
+  const editRule = (index: number, patch: Partial<HouseRule>) =>
+    setRules(rules.map((rule, idx) => (idx === index ? { ...rule, ...patch } : rule)));
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+  };
+
+  const handleSaveVersion = () => {
+    if (!versionName.trim()) return;
+    const { houseRules: next, saved } = saveVersion(houseRules, versionName.trim());
+    setHouseRules(next);
+    setVersionName('');
+    // The usual question right after saving: what changed since the version before?
+    if (next.versions[1]) {
+      setCompareFrom(next.versions[1].id);
+      setCompareTo(saved.id);
+    }
+  };
+
+  const handleRestore = (id: string) => {
+    if (!window.confirm(t.confirmRestore)) return;
+    setHouseRules(restoreVersion(houseRules, id));
+  };
+
+  const handleRemoveVersion = (id: string) => {
+    if (!window.confirm(t.confirmDelete)) return;
+    setHouseRules(removeVersion(houseRules, id));
+    if (compareFrom === id) setCompareFrom('');
+    if (compareTo === id) setCompareTo(CURRENT);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const { value, issues } = parseHouseRules(await file.text());
+    setImportIssues(issues.map(formatIssue));
+    if (!value || (rules.length > 0 && !window.confirm(t.confirmImport(value.length)))) return;
+    setRules(value);
+  };
+
+  const rulesOf = (id: string) => (id === CURRENT ? rules : versions.find(version => version.id === id)?.rules);
+  const fromRules = rulesOf(compareFrom);
+  const toRules = rulesOf(compareTo);
+  const changes = fromRules && toRules ? diffRules(fromRules, toRules) : null;
+
+  const inputClass = "bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs";
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+  const toolClass = "flex items-center gap-1.5 text-xs font-mono text-vibe-muted hover:text-white bg-white/5 hover:bg-white/10 px-2.5 py-1.5 rounded border border-white/10 transition-colors disabled:opacity-50";
+  const iconButtonClass = "p-1.5 rounded text-slate-500 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30";
+
+  return (
+    <div className="w-full glass-panel rounded-2xl p-6 md:p-8 mt-8 border-t-4 border-t-vibe-accent shadow-2xl">
+      <div className="flex flex-col gap-4 mb-6">
+        <h2 className="text-2xl font-bold font-mono text-vibe-accent">
+          <span className="mr-2">📜</span>{t.title}
+        </h2>
+        <p className="text-vibe-muted">
+          {t.desc}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={houseRules.enabled}
+            onChange={(e) => setHouseRules(setRulesEnabled(houseRules, e.target.checked))}
+            className="accent-indigo-500"
+          />
+          {t.enabled}
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => importRef.current?.click()} className={toolClass}>
+            <Upload className="w-3.5 h-3.5" /> {t.import}
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,.md,.markdown,.txt"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => downloadText(rulesToJson(rules, exportName), exportFileName(`house-rules-${exportName}`, 'json'), 'application/json')}
+            disabled={rules.length === 0}
+            className={toolClass}
+          >
+            <FileJson className="w-3.5 h-3.5" /> JSON
+          </button>
+          <button
+            onClick={() => downloadText(rulesToMarkdown(rules, { name: exportName, lang: locale }), exportFileName(`house-rules-${exportName}`, 'md'), 'text/markdown')}
+            disabled={rules.length === 0}
+            className={toolClass}
+          >
+            <FileText className="w-3.5 h-3.5" /> Markdown
+          </button>
+          {rules.length > 0 && (
+            <CopyButton text={rulesToMarkdown(rules, { name: exportName, lang: locale })} label={t.copy} copiedLabel={t.copied} />
+          )}
+        </div>
+      </div>
+
+      {importIssues.length > 0 && (
+        <div className="mb-4 p-4 bg-red-950/30 border border-red-500/30 rounded-lg flex items-start gap-3">
+          <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+          <div>
+            <p className="text-red-300 text-sm">{t.importFailed}</p>
+            <ul className="mt-2 space-y-1 font-mono text-xs text-red-300/80">
+              {importIssues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-vibe-muted">
+          {t.empty}
+          <button
+            onClick={() => setRules(starterRules(phases))}
+            className="text-xs px-3 py-2 rounded-md bg-vibe-accent hover:bg-indigo-400 text-white font-semibold"
+          >
+            {t.starter}
+          </button>
+        </div>
+      ) : (
+        <ol className="space-y-2">
+          {rules.map((rule, idx) => (
+            <li key={rule.id} className="flex flex-wrap md:flex-nowrap items-center gap-2 bg-slate-900/40 border border-slate-700 rounded-lg px-3 py-2">
+              <span className="font-mono text-xs text-vibe-accent w-8">#{idx + 1}</span>
+              <select
+                value={rule.phase}
+                onChange={(e) => editRule(idx, { phase: e.target.value as PhaseId })}
+                aria-label={t.phase}
+                className={`${inputClass} md:w-44`}
+              >
+                {SOP_PHASES.map(phase => <option key={phase} value={phase}>{phaseTitle(phase)}</option>)}
+              </select>
+              <input
+                value={rule.text}
+                onChange={(e) => editRule(idx, { text: e.target.value })}
+                placeholder={t.rulePlaceholder}
+                aria-label={t.rule(idx + 1)}
+                className={`${inputClass} flex-1 min-w-[12rem]`}
+              />
+              <div className="flex items-center">
+                <button onClick={() => moveRule(idx, -1)} disabled={idx === 0} className={iconButtonClass} title={t.moveUp}>
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => moveRule(idx, 1)} disabled={idx === rules.length - 1} className={iconButtonClass} title={t.moveDown}>
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setRules(rules.filter(entry => entry.id !== rule.id))}
+                  className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+                  title={t.remove}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {rules.length > 0 && (
+        <button
+          onClick={() => setRules([...rules, createRule(rules[rules.length - 1].phase)])}
+          className="mt-3 text-xs px-3 py-2 rounded text-vibe-muted hover:text-white hover:bg-white/5 flex items-center gap-1.5"
+        >
+          <Plus className="w-3.5 h-3.5" /> {t.addRule}
+        </button>
+      )}
+
+      <div className="mt-8 grid gap-6 md:grid-cols-2">
+        <div className="space-y-3">
+          <span className={labelClass}>{t.versions}</span>
+          <div className="flex gap-2">
+            <input
+              value={versionName}
+              onChange={(e) => setVersionName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSaveVersion()}
+              placeholder={t.versionName}
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              onClick={handleSaveVersion}
+              disabled={!versionName.trim() || rules.length === 0}
+              className="text-xs px-3 py-2 rounded-md bg-vibe-accent hover:bg-indigo-400 text-white font-semibold flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-3.5 h-3.5" /> {t.saveVersion}
+            </button>
+          </div>
+          {versions.length === 0 ? (
+            <p className="text-sm text-vibe-muted">{t.noVersions}</p>
+          ) : (
+            <ul className="space-y-2">
+              {versions.map(version => (
+                <li key={version.id} className="flex items-center gap-3 text-sm bg-slate-900/40 border border-slate-700 rounded-lg px-3 py-2">
+                  <span className="flex-1 min-w-0 truncate text-slate-200">{version.name}</span>
+                  <span className="font-mono text-xs text-vibe-muted">
+                    {new Date(version.createdAt).toLocaleString(LOCALES[locale].tag, { dateStyle: 'short', timeStyle: 'short' })} · {t.ruleCount(version.rules.length)}
+                  </span>
+                  <button onClick={() => handleRestore(version.id)} className={iconButtonClass} title={t.restore}>
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleRemoveVersion(version.id)}
+                    className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+                    title={t.deleteVersion}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <span className={labelClass}>{t.compare}</span>
+          <div className="flex items-center gap-2">
+            <select
+              value={compareFrom}
+              onChange={(e) => setCompareFrom(e.target.value)}
+              disabled={versions.length === 0}
+              aria-label={t.compareFrom}
+              className={`${inputClass} flex-1 min-w-0 disabled:opacity-50`}
+            >
+              <option value="">{t.pickVersion}</option>
+              {versions.map(version => <option key={version.id} value={version.id}>{version.name}</option>)}
+            </select>
+            <span className="text-vibe-muted">→</span>
+            <select
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value)}
+              disabled={versions.length === 0}
+              aria-label={t.compareTo}
+              className={`${inputClass} flex-1 min-w-0 disabled:opacity-50`}
+            >
+              <option value={CURRENT}>{t.current}</option>
+              {versions.map(version => <option key={version.id} value={version.id}>{version.name}</option>)}
+            </select>
+          </div>
+          {changes && (changes.length === 0 ? (
+            <p className="text-sm text-vibe-muted">{t.noChanges}</p>
+          ) : (
+            <ul className="space-y-2">
+              {changes.map(change => {
+                const rule = change.after || change.before;
+                return (
+                  <li key={`${change.kind}-${rule?.id}`} className="text-sm bg-slate-900/40 border border-slate-700 rounded-lg px-3 py-2 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`text-[10px] font-mono px-2 py-0.5 rounded-full border ${changeStyles[change.kind]}`}>
+                        {t.changes[change.kind]}
+                      </span>
+                      <span className="font-mono text-xs text-vibe-muted">
+                        {[change.from, change.to].filter(n => n !== null).map(n => `#${n}`).join(' → ')}
+                      </span>
+                    </div>
+                    {change.kind === 'edited' && change.before && (
+                      <p className="text-slate-500 line-through">{phaseTitle(change.before.phase)}: {change.before.text}</p>
+                    )}
+                    {rule && (
+                      <p className={change.kind === 'removed' ? 'text-slate-500 line-through' : 'text-slate-300'}>
+                        {phaseTitle(rule.phase)}: {rule.text}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HouseRulesEditor;
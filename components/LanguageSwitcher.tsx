@@ -0,0 +1,26 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+import { LOCALE_IDS, LOCALES, Locale } from '../i18n/locales';
+
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, messages } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 text-xs font-mono text-vibe-muted hover:text-white transition-colors bg-white/5 px-3 py-1.5 rounded-full border border-white/10 cursor-pointer">
+      <Globe className="w-3 h-3" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        aria-label={messages.app.language}
+        className="bg-transparent focus:outline-none cursor-pointer"
+      >
+        {LOCALE_IDS.map(id => (
+          <option key={id} value={id} className="bg-vibe-dark">{LOCALES[id].label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { FileSearch } from 'lucide-react';
+import { LegacyAnalysis, SideEffectKind } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import CopyButton from './CopyButton';
+
+interface LegacyAnalysisPanelProps {
+  analysis: LegacyAnalysis;
+}
+
+const kindStyles: Record<SideEffectKind, string> = {
+  network: 'bg-sky-950/40 text-sky-300 border-sky-500/40',
+  storage: 'bg-violet-950/40 text-violet-300 border-violet-500/40',
+  dom: 'bg-amber-950/40 text-amber-300 border-amber-500/40',
+  global_state: 'bg-red-950/40 text-red-300 border-red-500/40',
+  io: 'bg-orange-950/40 text-orange-300 border-orange-500/40',
+  timer: 'bg-teal-950/40 text-teal-300 border-teal-500/40',
+  logging: 'bg-slate-800/60 text-slate-300 border-slate-500/40',
+  other: 'bg-slate-800/60 text-slate-300 border-slate-500/40',
+};
+
+const LegacyAnalysisPanel: React.FC<LegacyAnalysisPanelProps> = ({ analysis }) => {
+  const t = useI18n().messages.legacyAnalysis;
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-700 rounded-lg p-4 space-y-5">
+      <div className="flex items-center gap-2 text-xs font-bold text-vibe-muted uppercase tracking-wider">
+        <FileSearch className="w-3 h-3" /> {t.title}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className={labelClass}>{t.inferredInterface}</span>
+          <CopyButton text={analysis.inferredInterface} label={t.copy} copiedLabel={t.copied} />
+        </div>
+        <pre className="p-3 max-h-72 overflow-auto rounded-lg bg-black/30 border border-slate-700 font-mono text-xs text-slate-300">
+          {analysis.inferredInterface}
+        </pre>
+      </div>
+
+      <div className="grid gap-5 md:grid-cols-2">
+        <div className="space-y-2">
+          <span className={labelClass}>{t.sideEffects} ({analysis.sideEffects.length})</span>
+          {analysis.sideEffects.length === 0 ? (
+            <p className="text-sm text-vibe-muted">{t.none}</p>
+          ) : (
+            <ul className="space-y-2">
+              {analysis.sideEffects.map((effect, idx) => (
+                <li key={idx} className="text-sm text-slate-300">
+                  <span className={`text-[10px] font-mono px-2 py-0.5 rounded-full border mr-2 ${kindStyles[effect.kind]}`}>
+                    {t.kinds[effect.kind]}
+                  </span>
+                  {effect.description}
+                  <span className="ml-2 font-mono text-xs text-vibe-muted">{effect.location}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <span className={labelClass}>{t.hiddenDependencies} ({analysis.hiddenDependencies.length})</span>
+          {analysis.hiddenDependencies.length === 0 ? (
+            <p className="text-sm text-vibe-muted">{t.none}</p>
+          ) : (
+            <ul className="space-y-2">
+              {analysis.hiddenDependencies.map((dependency, idx) => (
+                <li key={idx} className="text-sm text-slate-300">
+                  <code className="font-mono text-xs text-vibe-accent mr-2">{dependency.name}</code>
+                  {dependency.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LegacyAnalysisPanel;
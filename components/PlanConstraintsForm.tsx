@@ -0,0 +1,129 @@
+import React from 'react';
+import { Plus, SlidersHorizontal, X } from 'lucide-react';
+import { PlanConstraints, ProjectKind, StepGranularity } from '../types';
+import { EMPTY_CONSTRAINTS, hasConstraints, normalizeConstraints, PROJECT_KINDS, STEP_GRANULARITIES } from '../services/planConstraints';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface PlanConstraintsFormProps {
+  constraints: PlanConstraints;
+  onChange: (constraints: PlanConstraints) => void;
+  disabled?: boolean;
+}
+
+// Lists are edited as raw lines so a trailing newline survives typing; planning normalizes them.
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n');
+
+const PlanConstraintsForm: React.FC<PlanConstraintsFormProps> = ({ constraints, onChange, disabled = false }) => {
+  const t = useI18n().messages.constraints;
+  const stated = normalizeConstraints(constraints);
+
+  const summary = [
+    stated.techStack,
+    stated.project && t.projects[stated.project],
+    stated.hardConstraints.length > 0 && t.count(stated.hardConstraints.length),
+  ].filter(Boolean).join(' · ') || t.granularities[stated.granularity];
+
+  const update = (patch: Partial<PlanConstraints>) => onChange({ ...constraints, ...patch });
+
+  const addPreset = (preset: string) => update({ hardConstraints: [...stated.hardConstraints, preset] });
+
+  const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs disabled:opacity-50";
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+
+  return (
+    <details className="mb-3 bg-slate-900/40 rounded-lg border border-slate-700 group">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center gap-2 text-sm text-slate-300">
+        <SlidersHorizontal className="w-4 h-4 text-vibe-accent" />
+        {t.title}
+        <span className="ml-auto font-mono text-xs text-vibe-muted truncate max-w-[60%]">
+          {hasConstraints(constraints) ? summary : t.none}
+        </span>
+      </summary>
+      <fieldset disabled={disabled} className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-vibe-muted">{t.hint}</p>
+
+        <div className="grid gap-3 md:grid-cols-3">
+          <label className="flex flex-col gap-1 md:col-span-3">
+            <span className={labelClass}>{t.techStack}</span>
+            <input
+              value={constraints.techStack}
+              onChange={(e) => update({ techStack: e.target.value })}
+              placeholder={t.techStackPlaceholder}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>{t.project}</span>
+            <select
+              value={constraints.project || ''}
+              onChange={(e) => update({ project: (e.target.value || null) as ProjectKind | null })}
+              className={inputClass}
+            >
+              <option value="">{t.projects.unset}</option>
+              {PROJECT_KINDS.map(kind => <option key={kind} value={kind}>{t.projects[kind]}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 md:col-span-2">
+            <span className={labelClass}>{t.granularity}</span>
+            <select
+              value={constraints.granularity}
+              onChange={(e) => update({ granularity: e.target.value as StepGranularity })}
+              className={inputClass}
+            >
+              {STEP_GRANULARITIES.map(option => <option key={option} value={option}>{t.granularities[option]}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>{t.existingModules}</span>
+            <textarea
+              value={toLines(constraints.existingModules)}
+              onChange={(e) => update({ existingModules: fromLines(e.target.value) })}
+              placeholder={t.existingModulesPlaceholder}
+              spellCheck={false}
+              rows={4}
+              className={`${inputClass} resize-y`}
+            />
+          </label>
+          <div className="flex flex-col gap-1">
+            <label className="flex flex-col gap-1">
+              <span className={labelClass}>{t.hardConstraints}</span>
+              <textarea
+                value={toLines(constraints.hardConstraints)}
+                onChange={(e) => update({ hardConstraints: fromLines(e.target.value) })}
+                placeholder={t.hardConstraintsPlaceholder}
+                rows={4}
+                className={`${inputClass} resize-y`}
+              />
+            </label>
+            <div className="flex flex-wrap gap-1.5">
+              {t.presets.filter(preset => !stated.hardConstraints.includes(preset)).map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => addPreset(preset)}
+                  className="text-[11px] px-2 py-1 rounded-full border border-white/10 bg-white/5 text-slate-300 hover:bg-white/10 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Plus className="w-3 h-3" /> {preset}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {hasConstraints(constraints) && (
+          <button
+            onClick={() => onChange(EMPTY_CONSTRAINTS)}
+            className="text-xs px-3 py-2 rounded-md text-vibe-muted hover:text-white hover:bg-white/5 flex items-center gap-1.5"
+          >
+            <X className="w-3.5 h-3.5" /> {t.clear}
+          </button>
+        )}
+      </fieldset>
+    </details>
+  );
+};
+
+export default PlanConstraintsForm;
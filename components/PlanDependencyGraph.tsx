@@ -0,0 +1,106 @@
+import React from 'react';
+import { GitBranch } from 'lucide-react';
+import { PlanStep, StepStatus } from '../types';
+import { getProgress } from '../services/stepProgress';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface PlanDependencyGraphProps {
+  steps: PlanStep[];
+}
+
+const NODE_RADIUS = 14;
+const COLUMN_WIDTH = 72;
+const ROW_HEIGHT = 40;
+const PADDING = 20;
+
+const nodeFill: Record<StepStatus, string> = {
+  todo: '#1e293b',
+  in_progress: '#0c4a6e',
+  done: '#064e3b',
+  failed: '#7f1d1d',
+  skipped: '#334155',
+};
+
+// Layered layout: a step sits one column to the right of its deepest dependency.
+const layout = (steps: PlanStep[]) => {
+  const levels: number[] = [];
+  steps.forEach((step, idx) => {
+    const deps = (step.dependsOn || []).filter(dep => dep >= 1 && dep <= idx);
+    levels[idx] = deps.length > 0 ? Math.max(...deps.map(dep => levels[dep - 1])) + 1 : 0;
+  });
+
+  const rowsUsed: number[] = [];
+  const positions = levels.map(level => {
+    const row = rowsUsed[level] ?? 0;
+    rowsUsed[level] = row + 1;
+    return { x: PADDING + NODE_RADIUS + level * COLUMN_WIDTH, y: PADDING + NODE_RADIUS + row * ROW_HEIGHT };
+  });
+
+  return {
+    positions,
+    width: PADDING * 2 + NODE_RADIUS * 2 + Math.max(0, ...levels) * COLUMN_WIDTH,
+    height: PADDING * 2 + NODE_RADIUS * 2 + (Math.max(1, ...rowsUsed) - 1) * ROW_HEIGHT,
+  };
+};
+
+const PlanDependencyGraph: React.FC<PlanDependencyGraphProps> = ({ steps }) => {
+  const title = useI18n().messages.dependencyGraph.title;
+  if (!steps.some(step => step.dependsOn && step.dependsOn.length > 0)) return null;
+
+  const { positions, width, height } = layout(steps);
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-700 rounded-lg p-4">
+      <div className="flex items-center gap-2 text-xs font-bold text-vibe-muted uppercase tracking-wider mb-2">
+        <GitBranch className="w-3 h-3" /> {title}
+      </div>
+      <div className="overflow-x-auto scrollbar-hide">
+        <svg width={width} height={height} role="img" aria-label={title}>
+          {steps.flatMap((step, idx) =>
+            (step.dependsOn || [])
+              .filter(dep => dep >= 1 && dep <= idx)
+              .map(dep => {
+                const from = positions[dep - 1];
+                const to = positions[idx];
+                const midX = (from.x + to.x) / 2;
+                return (
+                  <path
+                    key={`${dep}-${idx + 1}`}
+                    d={`M ${from.x + NODE_RADIUS} ${from.y} C ${midX} ${from.y}, ${midX} ${to.y}, ${to.x - NODE_RADIUS} ${to.y}`}
+                    fill="none"
+                    stroke="#475569"
+                    strokeWidth={1.5}
+                  />
+                );
+              }))}
+          {steps.map((step, idx) => (
+            <g key={idx}>
+              <title>{`${idx + 1}. ${step.title}`}</title>
+              <circle
+                cx={positions[idx].x}
+                cy={positions[idx].y}
+                r={NODE_RADIUS}
+                fill={nodeFill[getProgress(step).status]}
+                stroke="#818cf8"
+                strokeWidth={1.5}
+              />
+              <text
+                x={positions[idx].x}
+                y={positions[idx].y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fill="#f8fafc"
+                fontSize={11}
+                fontFamily="JetBrains Mono, monospace"
+              >
+                {idx + 1}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default PlanDependencyGraph;
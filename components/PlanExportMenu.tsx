@@ -0,0 +1,56 @@
+import React from 'react';
+import { FileJson, FileText, Package } from 'lucide-react';
+import { PlannerResponse, SOPPhase } from '../types';
+import {
+  buildPromptPack,
+  downloadBlob,
+  downloadText,
+  exportFileName,
+  planToJson,
+  planToMarkdown
+} from '../services/planExport';
+import { defaultPlanName } from '../services/planHistory';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface PlanExportMenuProps {
+  plan: PlannerResponse;
+  input: string;
+  contextPhase?: SOPPhase;
+}
+
+const PlanExportMenu: React.FC<PlanExportMenuProps> = ({ plan, input, contextPhase }) => {
+  const { locale, messages } = useI18n();
+  const t = messages.exportMenu;
+
+  const title = defaultPlanName(input) || t.pack;
+
+  const buttonClass = "flex items-center gap-1.5 text-xs font-mono text-vibe-muted hover:text-white bg-white/5 hover:bg-white/10 px-2.5 py-1.5 rounded border border-white/10 transition-colors";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        className={buttonClass}
+        title={t.markdownHint}
+        onClick={() => downloadText(planToMarkdown(plan, { title, input, lang: locale }), exportFileName(title, 'md'), 'text/markdown')}
+      >
+        <FileText className="w-3 h-3" /> Markdown
+      </button>
+      <button
+        className={buttonClass}
+        title={t.jsonHint}
+        onClick={() => downloadText(planToJson(plan), exportFileName(title, 'json'), 'application/json')}
+      >
+        <FileJson className="w-3 h-3" /> JSON
+      </button>
+      <button
+        className={buttonClass}
+        title={t.packHint}
+        onClick={() => downloadBlob(buildPromptPack(plan, contextPhase, locale), exportFileName(title, 'zip'))}
+      >
+        <Package className="w-3 h-3" /> {t.pack}
+      </button>
+    </div>
+  );
+};
+
+export default PlanExportMenu;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { History, Pin, PinOff, Pencil, Trash2, Search, FolderOpen, Check } from 'lucide-react';
+import { SavedPlan } from '../types';
+import { searchHistory } from '../services/planHistory';
+import { useI18n } from '../i18n/I18nProvider';
+import { LOCALES } from '../i18n/locales';
+
+interface PlanHistoryProps {
+  history: SavedPlan[];
+  activeId: string | null;
+  onOpen: (entry: SavedPlan) => void;
+  onRename: (id: string, name: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const PlanHistory: React.FC<PlanHistoryProps> = ({ history, activeId, onOpen, onRename, onTogglePin, onDelete }) => {
+  const { locale, messages } = useI18n();
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const t = messages.history;
+
+  const visible = searchHistory(history, query);
+
+  const startRename = (entry: SavedPlan) => {
+    setEditingId(entry.id);
+    setDraftName(entry.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm(t.confirmDelete)) onDelete(id);
+  };
+
+  const iconButton = "p-1.5 rounded text-slate-500 hover:text-white hover:bg-white/5 transition-colors";
+
+  return (
+    <details className="mb-4 bg-slate-900/40 rounded-lg border border-slate-700" open={history.length > 0}>
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center gap-2 text-sm text-slate-300">
+        <History className="w-4 h-4 text-vibe-accent" />
+        {t.title}
+        <span className="ml-auto font-mono text-xs text-vibe-muted">{history.length}</span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        {history.length === 0 ? (
+          <p className="text-xs text-vibe-muted">{t.empty}</p>
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="w-3 h-3 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t.search}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-md pl-8 pr-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all text-xs"
+              />
+            </div>
+            {visible.length === 0 && <p className="text-xs text-vibe-muted">{t.noMatch}</p>}
+            <ul className="max-h-64 overflow-y-auto space-y-1 scrollbar-hide">
+              {visible.map(entry => (
+                <li
+                  key={entry.id}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-md border ${
+                    entry.id === activeId ? 'border-vibe-accent/50 bg-vibe-accent/10' : 'border-transparent hover:bg-white/5'
+                  }`}
+                >
+                  {entry.pinned && <Pin className="w-3 h-3 text-vibe-accent flex-shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    {editingId === entry.id ? (
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white focus:outline-none"
+                      />
+                    ) : (
+                      <button onClick={() => onOpen(entry)} className="text-left w-full" title={t.open}>
+                        <div className="text-sm text-slate-200 truncate">{entry.name}</div>
+                        <div className="text-[10px] font-mono text-vibe-muted truncate">
+                          {new Date(entry.createdAt).toLocaleString(LOCALES[locale].tag)} · {entry.lang.toUpperCase()} · {entry.model}{entry.template && ` · ${entry.template.id} v${entry.template.version}`}{entry.constraints?.techStack && ` · ${entry.constraints.techStack}`} · {entry.plan.steps.length} {t.steps}
+                        </div>
+                      </button>
+                    )}
+                  </div>
+                  {editingId === entry.id ? (
+                    <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className={iconButton} title={t.rename}>
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                  ) : (
+                    <>
+                      <button onClick={() => onOpen(entry)} className={iconButton} title={t.open}>
+                        <FolderOpen className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => startRename(entry)} className={iconButton} title={t.rename}>
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => onTogglePin(entry.id)} className={iconButton} title={entry.pinned ? t.unpin : t.pin}>
+                        {entry.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                      </button>
+                      <button onClick={() => handleDelete(entry.id)} className={`${iconButton} hover:text-red-400`} title={t.remove}>
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default PlanHistory;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { PlanStep, StepStatus } from '../types';
+import { formatDuration, summarizeProgress } from '../services/stepProgress';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface PlanProgressBarProps {
+  steps: PlanStep[];
+}
+
+const segmentColors: Record<StepStatus, string> = {
+  done: 'bg-emerald-500',
+  in_progress: 'bg-sky-500',
+  failed: 'bg-red-500',
+  skipped: 'bg-slate-600',
+  todo: 'bg-transparent',
+};
+
+const SEGMENT_ORDER: StepStatus[] = ['done', 'in_progress', 'failed', 'skipped'];
+
+const PlanProgressBar: React.FC<PlanProgressBarProps> = ({ steps }) => {
+  const summary = summarizeProgress(steps);
+  const { messages } = useI18n();
+  const labels = messages.stepStatus;
+  const t = messages.progressBar;
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-700 rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-bold text-vibe-muted uppercase tracking-wider">{t.progress}</span>
+        <span className="font-mono text-slate-300">
+          {summary.percent}% · {summary.counts.done}/{summary.total - summary.counts.skipped} · {t.time} {formatDuration(summary.timeSpentMs)}
+        </span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-slate-800 overflow-hidden flex">
+        {SEGMENT_ORDER.map(status => summary.counts[status] > 0 && (
+          <div
+            key={status}
+            className={`${segmentColors[status]} h-full transition-all duration-500`}
+            style={{ width: `${(summary.counts[status] / summary.total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 text-[10px] font-mono text-vibe-muted">
+        {SEGMENT_ORDER.map(status => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={`w-2 h-2 rounded-full ${segmentColors[status]}`} /> {labels[status]} {summary.counts[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PlanProgressBar;
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, FileCode2, GripVertical, ListChecks, Loader2, PackageOpen, Pencil, RefreshCw, Trash2, XCircle } from 'lucide-react';
+import { PlanStep, SOPPhase, StepProgress } from '../types';
+import { buildStepPrompt } from '../services/planExport';
+import { getProgress } from '../services/stepProgress';
+import CopyButton from './CopyButton';
+import StepProgressPanel, { statusStyles } from './StepProgressPanel';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface PlanStepCardProps {
+  step: PlanStep;
+  index: number;
+  total: number;
+  contextPhase?: SOPPhase;
+  // Title of the SOP phase the step is mapped to, if any.
+  phaseTitle?: string;
+  editing: boolean;
+  regenerating: boolean;
+  // True while another step is being regenerated or edited, or the plan is streaming.
+  locked: boolean;
+  error?: string | null;
+  dropTarget: boolean;
+  onEdit: () => void;
+  onSave: (step: PlanStep) => void;
+  onCancel: () => void;
+  onDelete: () => void;
+  onRegenerate: () => void;
+  // Absent when there is no Context Payload builder to hand the step to.
+  onBuildPayload?: () => void;
+  onProgressChange: (progress: StepProgress) => void;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+const PlanStepCard: React.FC<PlanStepCardProps> = ({
+  step, index, total, contextPhase, phaseTitle, editing, regenerating, locked, error, dropTarget,
+  onEdit, onSave, onCancel, onDelete, onRegenerate, onBuildPayload, onProgressChange, onDragStart, onDragOver, onDrop, onDragEnd,
+}) => {
+  const { locale, messages } = useI18n();
+  const [draft, setDraft] = useState<PlanStep>(step);
+
+  useEffect(() => {
+    if (editing) setDraft(step);
+  }, [editing, step]);
+
+  const t = messages.stepCard;
+
+  const hasMeta = Boolean(phaseTitle || step.size || (step.dependsOn && step.dependsOn.length > 0));
+  const badgeClass = "text-[10px] font-mono px-2 py-0.5 rounded-full border border-slate-600 text-slate-400";
+
+  const progress = getProgress(step);
+  const canSave = draft.title.trim() && draft.promptStrategy.trim() && draft.risk.trim();
+  const fieldClass = "w-full bg-slate-900/60 border border-slate-600 rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-vibe-glow resize-y";
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+  const iconButton = "p-1.5 rounded text-slate-500 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      draggable={!locked && !editing}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      className={`bg-slate-800/50 border p-5 rounded-lg flex flex-col md:flex-row gap-4 transition-colors ${
+        dropTarget ? 'border-vibe-accent border-dashed' : 'border-slate-700 hover:border-vibe-accent/50'
+      }`}
+    >
+      <div className="flex-shrink-0 flex md:flex-col items-center gap-2">
+        <div
+          className={`w-8 h-8 rounded-full flex items-center justify-center font-bold font-mono border ${
+            progress.status === 'todo' ? 'bg-vibe-accent/20 text-vibe-accent border-transparent' : statusStyles[progress.status]
+          }`}
+          title={messages.stepStatus[progress.status]}
+        >
+          {index + 1}
+        </div>
+        {!locked && !editing && (
+          <GripVertical className="w-4 h-4 text-slate-600 cursor-grab" aria-label={t.drag} />
+        )}
+      </div>
+
+      {editing ? (
+        <div className="flex-grow space-y-3">
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>{t.title}</span>
+            <input
+              autoFocus
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              className={fieldClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>{t.strategy}</span>
+            <textarea
+              rows={3}
+              value={draft.promptStrategy}
+              onChange={(e) => setDraft({ ...draft, promptStrategy: e.target.value })}
+              className={fieldClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>{t.risk}</span>
+            <textarea
+              rows={2}
+              value={draft.risk}
+              onChange={(e) => setDraft({ ...draft, risk: e.target.value })}
+              className={fieldClass}
+            />
+          </label>
+          <div className="flex justify-end gap-2">
+            <button onClick={onCancel} className="text-xs px-3 py-1.5 rounded text-vibe-muted hover:text-white hover:bg-white/5">
+              {t.cancel}
+            </button>
+            <button
+              onClick={() => onSave({
+                ...draft,
+                title: draft.title.trim(),
+                promptStrategy: draft.promptStrategy.trim(),
+                risk: draft.risk.trim(),
+              })}
+              disabled={!canSave}
+              className="text-xs px-3 py-1.5 rounded bg-vibe-accent hover:bg-indigo-400 text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t.save}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-grow">
+          <div className="flex items-start justify-between gap-3 mb-2">
+            <h4 className={`text-lg font-medium ${progress.status === 'skipped' ? 'text-slate-500 line-through' : 'text-slate-100'}`}>
+              {step.title}
+            </h4>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <CopyButton
+                text={() => buildStepPrompt(step, index, total, contextPhase, locale)}
+                label={t.copyPrompt}
+                copiedLabel={t.copied}
+              />
+              {onBuildPayload && (
+                <button onClick={onBuildPayload} className={iconButton} title={t.buildPayload}>
+                  <PackageOpen className="w-3.5 h-3.5" />
+                </button>
+              )}
+              <button onClick={onEdit} disabled={locked} className={iconButton} title={t.edit}>
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={onRegenerate} disabled={locked} className={iconButton} title={t.regenerate}>
+                {regenerating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              </button>
+              <button onClick={onDelete} disabled={locked} className={`${iconButton} hover:text-red-400`} title={t.remove}>
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+
+          {hasMeta && (
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              {phaseTitle && <span className={`${badgeClass} border-vibe-accent/40 text-vibe-accent`}>{phaseTitle}</span>}
+              {step.size && <span className={badgeClass}>{t.size} {step.size}</span>}
+              {step.dependsOn && step.dependsOn.length > 0 && (
+                <span className={badgeClass}>{t.dependsOn} {step.dependsOn.map(dep => `#${dep}`).join(', ')}</span>
+              )}
+            </div>
+          )}
+
+          <div className={`grid md:grid-cols-2 gap-4 transition-opacity ${regenerating ? 'opacity-40' : ''}`}>
+            <div className="bg-emerald-950/30 p-3 rounded border border-emerald-500/20">
+              <div className="flex items-center gap-2 text-emerald-400 text-xs font-bold uppercase mb-1">
+                <CheckCircle2 className="w-3 h-3" /> {t.strategy}
+              </div>
+              <p className="text-slate-300 text-sm leading-relaxed">{step.promptStrategy}</p>
+            </div>
+
+            <div className="bg-amber-950/30 p-3 rounded border border-amber-500/20">
+              <div className="flex items-center gap-2 text-amber-400 text-xs font-bold uppercase mb-1">
+                <AlertTriangle className="w-3 h-3" /> {t.risk}
+              </div>
+              <p className="text-slate-300 text-sm leading-relaxed">{step.risk}</p>
+            </div>
+          </div>
+
+          {((step.acceptanceCriteria && step.acceptanceCriteria.length > 0) || (step.contextFiles && step.contextFiles.length > 0)) && (
+            <div className="grid md:grid-cols-2 gap-4 mt-4">
+              {step.acceptanceCriteria && step.acceptanceCriteria.length > 0 && (
+                <div>
+                  <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase mb-1">
+                    <ListChecks className="w-3 h-3" /> {t.acceptance}
+                  </div>
+                  <ul className="space-y-1 text-sm text-slate-300 list-disc list-inside">
+                    {step.acceptanceCriteria.map((criterion, i) => <li key={i}>{criterion}</li>)}
+                  </ul>
+                </div>
+              )}
+              {step.contextFiles && step.contextFiles.length > 0 && (
+                <div>
+                  <div className="flex items-center gap-2 text-slate-400 text-xs font-bold uppercase mb-1">
+                    <FileCode2 className="w-3 h-3" /> {t.contextFiles}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {step.contextFiles.map((file, i) => (
+                      <code key={i} className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-slate-900/60 border border-slate-700 text-slate-300">
+                        {file}
+                      </code>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <StepProgressPanel progress={progress} locked={locked} onChange={onProgressChange} />
+
+          {error && (
+            <p className="mt-3 flex items-center gap-2 text-xs text-red-300">
+              <XCircle className="w-3 h-3 text-red-400 flex-shrink-0" /> {error}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanStepCard;
@@ -1,53 +1,409 @@
-import React, { useState } from 'react';
-import { generateExecutionPlan } from '../services/geminiService';
-import { PlannerResponse } from '../types';
-import { Loader2, ArrowRight, AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { analyzeLegacyFile, legacyRefactorTask, regenerateStep, streamExecutionPlan } from '../services/geminiService';
+import { loadLLMSettings, saveLLMSettings } from '../services/settingsStore';
+import { activeRules, loadHouseRules } from '../services/houseRules';
+import { loadSelectedTemplate, saveSelectedTemplate, templateRef } from '../services/promptTemplates';
+import { loadConstraints, normalizeConstraints, saveConstraints } from '../services/planConstraints';
+import {
+  addToHistory,
+  defaultPlanName,
+  loadActivePlanId,
+  loadHistory,
+  removeFromHistory,
+  saveActivePlanId,
+  updateInHistory
+} from '../services/planHistory';
+import {
+  LLMSettings,
+  PhaseId,
+  PlanConstraints,
+  PlannerResponse,
+  PlanStep,
+  PromptTemplate,
+  SavedPlan,
+  SOPPhase,
+  StepProgress
+} from '../types';
+import ProviderSettings from './ProviderSettings';
+import PromptTemplateSettings from './PromptTemplateSettings';
+import PlanConstraintsForm from './PlanConstraintsForm';
+import PlanHistory from './PlanHistory';
+import PlanExportMenu from './PlanExportMenu';
+import PlanStepCard from './PlanStepCard';
+import PlanProgressBar from './PlanProgressBar';
+import PlanDependencyGraph from './PlanDependencyGraph';
+import LegacyAnalysisPanel from './LegacyAnalysisPanel';
+import ClosingProtocol from './ClosingProtocol';
+import { appendStep, moveStep, removeStep, replaceStep } from '../services/planEdits';
+import { isLegacyAnalysis } from '../services/planValidator';
+import { isPlanComplete } from '../services/stepProgress';
+import { useI18n } from '../i18n/I18nProvider';
+import { Loader2, ArrowRight, AlertTriangle, XCircle, Square, Plus, Upload, CheckCircle2 } from 'lucide-react';
 
 interface PlannerToolProps {
-  lang: 'en' | 'zh';
+  // SOP content in the active language: phase titles for step badges, Phase 2 reminders for exports.
+  phases: SOPPhase[];
+  // Plan named by the URL (`#/en/plans/<id>`); null on the plain Workshop route.
+  planId: string | null;
+  // Reports which plan is open so the URL can follow; `replace` for redirects rather than navigation.
+  onPlanRoute: (planId: string | null, replace?: boolean) => void;
+  // Hands a step to the Context Payload builder.
+  onBuildPayload?: (step: PlanStep) => void;
 }
 
-const PlannerTool: React.FC<PlannerToolProps> = ({ lang }) => {
-  const [input, setInput] = useState('');
-  const [plan, setPlan] = useState<PlannerResponse | null>(null);
+// `task` decomposes a free-text requirement; `legacy` reverse engineers an old source file.
+type PlannerMode = 'task' | 'legacy';
+
+const PLANNER_MODES: PlannerMode[] = ['task', 'legacy'];
+
+// Roughly 50k tokens of code: beyond that the analysis loses track of the file.
+const MAX_LEGACY_BYTES = 200_000;
+
+// A plan link wins; otherwise reopen whatever was open last time.
+const initialPlan = (history: SavedPlan[], planId: string | null): SavedPlan | null => {
+  const id = planId || loadActivePlanId();
+  return history.find(entry => entry.id === id) || null;
+};
+
+const PlannerTool: React.FC<PlannerToolProps> = ({ phases, planId, onPlanRoute, onBuildPayload }) => {
+  const { locale, messages } = useI18n();
+  const contextPhase = phases.find(phase => phase.id === PhaseId.CONTEXT);
+  const [history, setHistory] = useState<SavedPlan[]>(loadHistory);
+  const [activeId, setActiveId] = useState<string | null>(() => initialPlan(history, planId)?.id || null);
+  // Read after an await, when the `activeId` in the closure may be stale.
+  const activeIdRef = useRef(activeId);
+  // The task, or in legacy mode the file name; saved as the plan's input either way.
+  const [input, setInput] = useState(() => initialPlan(history, planId)?.input || '');
+  const [plan, setPlan] = useState<PlannerResponse | null>(() => initialPlan(history, planId)?.plan || null);
+  const [mode, setMode] = useState<PlannerMode>(() => (plan && isLegacyAnalysis(plan) ? 'legacy' : 'task'));
+  // Legacy source is sent to the model but never saved with the plan.
+  const [source, setSource] = useState('');
+  const [sourceTooLarge, setSourceTooLarge] = useState(false);
+  const uploadRef = useRef<HTMLInputElement>(null);
+  const [planNotFound, setPlanNotFound] = useState(() => Boolean(planId) && !initialPlan(history, planId));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorReasons, setErrorReasons] = useState<string[]>([]);
+  const [repairAttempts, setRepairAttempts] = useState(0);
+  const [settings, setSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [template, setTemplate] = useState<PromptTemplate>(() => loadSelectedTemplate());
+  // A reopened plan shows the constraints it was made with; otherwise the last ones typed.
+  const [constraints, setConstraints] = useState<PlanConstraints>(
+    () => initialPlan(history, planId)?.constraints || loadConstraints()
+  );
+  const [incomplete, setIncomplete] = useState<'cancelled' | 'interrupted' | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const [stepError, setStepError] = useState<{ index: number; message: string } | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [closingOpen, setClosingOpen] = useState(false);
+  const dragIndexRef = useRef<number | null>(null);
+
+  const t = { ...messages.planner, errors: messages.errors };
+  const activeEntry = history.find(entry => entry.id === activeId);
+  const activeTemplate = activeEntry?.template;
+
+  // What the model is told the plan is for; a legacy analysis only saved its file name. The saved
+  // input, not the textarea, which may have been edited since the plan was generated.
+  const taskFor = (current: PlannerResponse) => {
+    const source = activeEntry?.input ?? input;
+    return isLegacyAnalysis(current) ? legacyRefactorTask(source) : source;
+  };
+
+  const handleSettings = (next: LLMSettings) => {
+    setSettings(next);
+    saveLLMSettings(next);
+  };
+
+  const handleTemplate = (next: PromptTemplate) => {
+    setTemplate(next);
+    saveSelectedTemplate(next.id);
+  };
+
+  const handleConstraints = (next: PlanConstraints) => {
+    setConstraints(next);
+    saveConstraints(next);
+  };
+
+  const selectPlan = (id: string | null) => {
+    activeIdRef.current = id;
+    setActiveId(id);
+    saveActivePlanId(id);
+    setPlanNotFound(false);
+  };
+
+  // Stops a running generation and disowns it, so its outcome is not applied to what replaces it.
+  const abandonGeneration = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
+
+  const resetPlan = () => {
+    abandonGeneration();
+    setInput('');
+    setPlan(null);
+    setError(null);
+    setErrorReasons([]);
+    setRepairAttempts(0);
+    setIncomplete(null);
+    setEditingIndex(null);
+    setStepError(null);
+  };
+
+  const handleOpen = (entry: SavedPlan) => {
+    abandonGeneration();
+    setMode(isLegacyAnalysis(entry.plan) ? 'legacy' : 'task');
+    setSource('');
+    setSourceTooLarge(false);
+    setInput(entry.input);
+    if (entry.constraints) setConstraints(entry.constraints);
+    setPlan(entry.plan);
+    setError(null);
+    setErrorReasons([]);
+    setRepairAttempts(0);
+    setIncomplete(null);
+    setEditingIndex(null);
+    setStepError(null);
+    selectPlan(entry.id);
+    onPlanRoute(entry.id);
+  };
+
+  const handleRename = (id: string, name: string) => {
+    setHistory(prev => updateInHistory(prev, id, { name }));
+  };
+
+  const handleTogglePin = (id: string) => {
+    setHistory(prev => updateInHistory(prev, id, { pinned: !prev.find(entry => entry.id === id)?.pinned }));
+  };
+
+  const handleDelete = (id: string) => {
+    setHistory(prev => removeFromHistory(prev, id));
+    if (id === activeId) {
+      selectPlan(null);
+      onPlanRoute(null, true);
+    }
+  };
+
+  // Follows the URL (links, back/forward). On the plain Workshop route the open plan, e.g. the one
+  // restored on load, is written into the URL instead. Saved plans live in this browser only, so a
+  // link to one that isn't here shows a notice.
+  useEffect(() => {
+    if (planId === activeId) return;
+    if (!planId) {
+      if (activeId) onPlanRoute(activeId, true);
+      return;
+    }
+    const entry = history.find(saved => saved.id === planId);
+    if (entry) {
+      handleOpen(entry);
+    } else {
+      resetPlan();
+      selectPlan(null);
+      setPlanNotFound(true);
+    }
+  }, [planId]);
+
+  // The close-out panel belongs to the plan it was opened for.
+  useEffect(() => {
+    setClosingOpen(false);
+  }, [activeId]);
+
+  // Edits apply to the open plan and, when it came from history, to its saved copy.
+  const commitPlan = (next: PlannerResponse) => {
+    setPlan(next);
+    if (activeId) setHistory(prev => updateInHistory(prev, activeId, { plan: next }));
+  };
+
+  const handleSaveStep = (index: number, step: PlanStep) => {
+    if (!plan) return;
+    commitPlan(replaceStep(plan, index, step));
+    setEditingIndex(null);
+  };
+
+  const handleProgressChange = (index: number, progress: StepProgress) => {
+    if (!plan) return;
+    commitPlan(replaceStep(plan, index, { ...plan.steps[index], progress }));
+  };
+
+  const handleDeleteStep = (index: number) => {
+    if (!plan || plan.steps.length <= 1) return;
+    commitPlan(removeStep(plan, index));
+    setStepError(null);
+  };
+
+  const handleAddStep = () => {
+    if (!plan) return;
+    commitPlan(appendStep(plan, t.newStep));
+    setEditingIndex(plan.steps.length);
+  };
 
-  const t = {
-    title: lang === 'en' ? 'The Vibe Planner' : 'Vibe 规划器',
-    desc: lang === 'en' 
-      ? 'Input your complex feature requirement below. The AI will decompose it into a safe, iteration-proof execution plan based on the SOP.' 
-      : '在下方输入复杂的开发需求。AI 将基于 SOP 将其拆解为安全的、防幻觉的执行计划。',
-    placeholder: lang === 'en'
-      ? 'e.g., I need a real-time dashboard with websocket updates, auth, and complex role-based filtering...'
-      : '例如：我需要一个包含 Websocket 实时更新、身份验证和基于角色的复杂过滤功能的仪表盘...',
-    button: lang === 'en' ? 'Decompose Task' : '拆解任务',
-    blueprint: lang === 'en' ? 'Execution Blueprint' : '执行蓝图',
-    strategy: lang === 'en' ? 'Prompt Strategy' : '提示词策略',
-    risk: lang === 'en' ? 'Risk' : '潜在风险',
-    error: lang === 'en' ? 'Generation failed. Please check your API Key or try again.' : '生成失败。请检查 API Key 或重试。'
+  const handleDropStep = (target: number) => {
+    const from = dragIndexRef.current;
+    dragIndexRef.current = null;
+    setDropIndex(null);
+    if (!plan || from === null || from === target) return;
+    commitPlan(moveStep(plan, from, target));
+    setStepError(null);
+  };
+
+  const handleRegenerateStep = async (index: number) => {
+    if (!plan) return;
+    const planAtStart = activeId;
+    setRegeneratingIndex(index);
+    setStepError(null);
+    try {
+      const result = await regenerateStep(taskFor(plan), plan, index, locale, settings, {
+        houseRules: activeRules(loadHouseRules()),
+        // The plan's own constraints, not whatever the form says now, so the rewrite fits its neighbours.
+        constraints: activeEntry?.constraints,
+      });
+      // Another plan was opened meanwhile: the rewrite belongs to one that is no longer on screen.
+      if (activeIdRef.current !== planAtStart) return;
+      if (result.status === 'failed') {
+        setStepError({ index, message: t.errors[result.kind] });
+      } else {
+        // The rewrite replaces the content, not the work already logged against the step.
+        commitPlan(replaceStep(plan, index, { ...result.step, progress: plan.steps[index].progress }));
+      }
+    } finally {
+      setRegeneratingIndex(null);
+    }
   };
 
   const handlePlan = async () => {
     if (!input.trim()) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setError(null);
+    setErrorReasons([]);
+    setRepairAttempts(0);
     setPlan(null);
-    
+    setIncomplete(null);
+    setEditingIndex(null);
+    setStepError(null);
+    // The URL keeps pointing at the previous plan until the new one is saved.
+    selectPlan(null);
+
+    let received = 0;
+    const planConstraints = normalizeConstraints(constraints);
     try {
-      const result = await generateExecutionPlan(input, lang);
-      if (result) {
-        setPlan(result);
+      const result = await streamExecutionPlan(input, locale, settings, {
+        signal: controller.signal,
+        // Read at plan time: the rules are edited in their own card.
+        houseRules: activeRules(loadHouseRules()),
+        template,
+        constraints: planConstraints,
+        onStep: (step) => {
+          if (abortRef.current !== controller) return;
+          received++;
+          setPlan(prev => ({ steps: [...(prev?.steps || []), step] }));
+        },
+      });
+      // Another plan was opened (or the form reset) meanwhile; "cancelled" would land on it.
+      if (abortRef.current !== controller) return;
+      if (result.status !== 'failed') {
+        setPlan(result.plan);
+        if (result.status === 'repaired') setRepairAttempts(result.attempts);
+        // Re-read storage rather than the closure: the list may have changed while streaming.
+        const { history: nextHistory, saved } = addToHistory(loadHistory(), {
+          input,
+          lang: locale,
+          provider: settings.provider,
+          model: settings.model,
+          template: templateRef(template),
+          constraints: planConstraints,
+          plan: result.plan,
+        });
+        setHistory(nextHistory);
+        selectPlan(saved.id);
+        onPlanRoute(saved.id);
+      } else if (controller.signal.aborted) {
+        setIncomplete('cancelled');
+      } else if (received > 0) {
+        setIncomplete('interrupted');
       } else {
-        setError(t.error);
+        setError(t.errors[result.kind]);
+        setErrorReasons(result.reasons);
+      }
+    } catch (e) {
+      if (abortRef.current === controller) setError(t.errors.unknown);
+    } finally {
+      setLoading(false);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  // Same bookkeeping as handlePlan, but the analysis arrives in one piece.
+  const handleAnalyze = async () => {
+    if (!source.trim() || sourceTooLarge) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const fileName = input.trim() || 'legacy.js';
+    setInput(fileName);
+    setLoading(true);
+    setError(null);
+    setErrorReasons([]);
+    setRepairAttempts(0);
+    setPlan(null);
+    setIncomplete(null);
+    setEditingIndex(null);
+    setStepError(null);
+    selectPlan(null);
+
+    try {
+      const result = await analyzeLegacyFile(fileName, source, locale, settings, { signal: controller.signal });
+      if (abortRef.current !== controller) return;
+      if (result.status !== 'failed') {
+        setPlan(result.analysis);
+        if (result.status === 'repaired') setRepairAttempts(result.attempts);
+        const { history: nextHistory, saved } = addToHistory(loadHistory(), {
+          input: fileName,
+          lang: locale,
+          provider: settings.provider,
+          model: settings.model,
+          plan: result.analysis,
+        });
+        setHistory(nextHistory);
+        selectPlan(saved.id);
+        onPlanRoute(saved.id);
+      } else if (!controller.signal.aborted) {
+        setError(t.errors[result.kind]);
+        setErrorReasons(result.reasons);
       }
     } catch (e) {
-      setError(t.error);
+      if (abortRef.current === controller) setError(t.errors.unknown);
     } finally {
       setLoading(false);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setInput(file.name);
+    setSourceTooLarge(file.size > MAX_LEGACY_BYTES);
+    setSource(file.size > MAX_LEGACY_BYTES ? '' : await file.text());
+  };
+
+  // Switching modes starts over: a task and a legacy file never share one plan.
+  const handleModeChange = (next: PlannerMode) => {
+    if (next === mode || loading) return;
+    resetPlan();
+    setSource('');
+    setSourceTooLarge(false);
+    setMode(next);
+    if (activeId) {
+      selectPlan(null);
+      onPlanRoute(null);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <div className="w-full glass-panel rounded-2xl p-6 md:p-8 mt-8 border-t-4 border-t-vibe-accent shadow-2xl">
       <div className="flex flex-col gap-4 mb-6">
@@ -59,62 +415,214 @@ const PlannerTool: React.FC<PlannerToolProps> = ({ lang }) => {
         </p>
       </div>
 
+      <ProviderSettings settings={settings} onChange={handleSettings} />
+      {mode === 'task' && <PromptTemplateSettings template={template} onChange={handleTemplate} />}
+      <PlanHistory
+        history={history}
+        activeId={activeId}
+        onOpen={handleOpen}
+        onRename={handleRename}
+        onTogglePin={handleTogglePin}
+        onDelete={handleDelete}
+      />
+
+      <div className="flex gap-1 mb-3 border-b border-slate-700" role="tablist">
+        {PLANNER_MODES.map(option => (
+          <button
+            key={option}
+            role="tab"
+            aria-selected={mode === option}
+            onClick={() => handleModeChange(option)}
+            disabled={loading}
+            className={`text-xs font-mono px-3 py-2 -mb-px border-b-2 transition-colors disabled:cursor-not-allowed ${
+              mode === option ? 'border-vibe-accent text-white' : 'border-transparent text-vibe-muted hover:text-white'
+            }`}
+          >
+            {t.modes[option]}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'legacy' && (
+        <div className="mb-3 space-y-3">
+          <p className="text-sm text-vibe-muted">{t.legacyDesc}</p>
+          <div className="flex items-center gap-2">
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={t.fileName}
+              className="flex-1 bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs"
+            />
+            <button
+              onClick={() => uploadRef.current?.click()}
+              disabled={loading}
+              className="text-xs px-3 py-2 rounded text-vibe-muted hover:text-white hover:bg-white/5 flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <Upload className="w-3.5 h-3.5" /> {t.upload}
+            </button>
+            <input
+              ref={uploadRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {sourceTooLarge && (
+            <p className="text-xs text-amber-300">{t.tooLarge(MAX_LEGACY_BYTES / 1000)}</p>
+          )}
+        </div>
+      )}
+
+      {mode === 'task' && (
+        <PlanConstraintsForm constraints={constraints} onChange={handleConstraints} disabled={loading} />
+      )}
+
       <div className="relative">
-        <textarea
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          placeholder={t.placeholder}
-          className="w-full h-32 bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-sm resize-none"
-        />
-        <button
-          onClick={handlePlan}
-          disabled={loading || !input}
-          className="absolute bottom-4 right-4 bg-vibe-accent hover:bg-indigo-400 text-white px-4 py-2 rounded-md font-semibold text-sm flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {loading ? <Loader2 className="animate-spin w-4 h-4" /> : <span className="flex items-center gap-2">{t.button} <ArrowRight className="w-4 h-4" /></span>}
-        </button>
+        {mode === 'task' ? (
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t.placeholder}
+            className="w-full h-32 bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-sm resize-none"
+          />
+        ) : (
+          <textarea
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value);
+              setSourceTooLarge(new Blob([e.target.value]).size > MAX_LEGACY_BYTES);
+            }}
+            placeholder={t.sourcePlaceholder}
+            spellCheck={false}
+            className="w-full h-64 bg-slate-900/50 border border-slate-700 rounded-lg p-4 pb-16 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs resize-y"
+          />
+        )}
+        {loading ? (
+          <button
+            onClick={handleCancel}
+            className="absolute bottom-4 right-4 bg-slate-700 hover:bg-red-500/80 text-white px-4 py-2 rounded-md font-semibold text-sm flex items-center gap-2 transition-all"
+          >
+            <Loader2 className="animate-spin w-4 h-4" />
+            {t.cancel}
+            <Square className="w-3 h-3" />
+          </button>
+        ) : (
+          <button
+            onClick={mode === 'task' ? handlePlan : handleAnalyze}
+            disabled={mode === 'task' ? !input : !source.trim() || sourceTooLarge}
+            className="absolute bottom-4 right-4 bg-vibe-accent hover:bg-indigo-400 text-white px-4 py-2 rounded-md font-semibold text-sm flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <span className="flex items-center gap-2">{mode === 'task' ? t.button : t.analyze} <ArrowRight className="w-4 h-4" /></span>
+          </button>
+        )}
       </div>
 
+      {planNotFound && (
+        <div className="mt-6 p-3 bg-amber-950/30 border border-amber-500/30 rounded-lg flex items-center gap-3">
+          <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+          <p className="text-amber-300 text-sm">{t.planNotFound}</p>
+        </div>
+      )}
+
       {error && (
         <div className="mt-6 p-4 bg-red-950/30 border border-red-500/30 rounded-lg flex items-center gap-3 animate-in fade-in">
           <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
-          <p className="text-red-300 text-sm">{error}</p>
+          <div>
+            <p className="text-red-300 text-sm">{error}</p>
+            {errorReasons.length > 0 && (
+              <ul className="mt-2 space-y-1 font-mono text-xs text-red-300/80">
+                {errorReasons.map((reason, i) => <li key={i}>{reason}</li>)}
+              </ul>
+            )}
+          </div>
         </div>
       )}
 
       {plan && (
         <div className="mt-8 space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
-          <h3 className="text-lg font-semibold text-white mb-4">{t.blueprint}</h3>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-lg font-semibold text-white flex items-center gap-3">
+              {isLegacyAnalysis(plan) ? t.refactorPlan : t.blueprint}
+              {loading && (
+                <span className="flex items-center gap-2 text-xs font-mono font-normal text-vibe-muted">
+                  <Loader2 className="animate-spin w-3 h-3" /> {t.streaming}
+                </span>
+              )}
+              {!loading && activeTemplate && (
+                <span className="text-xs font-mono font-normal text-vibe-muted" title={t.templateUsed}>
+                  {activeTemplate.id} v{activeTemplate.version}
+                </span>
+              )}
+            </h3>
+            {!loading && <PlanExportMenu plan={plan} input={input} contextPhase={contextPhase} />}
+          </div>
+          {repairAttempts > 0 && (
+            <p className="text-xs font-mono text-vibe-muted">{t.repaired(repairAttempts)}</p>
+          )}
+          {incomplete && (
+            <div className="p-3 bg-amber-950/30 border border-amber-500/30 rounded-lg flex items-center gap-3">
+              <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+              <p className="text-amber-300 text-sm">{incomplete === 'cancelled' ? t.cancelled : t.interrupted}</p>
+            </div>
+          )}
+          {isLegacyAnalysis(plan) && <LegacyAnalysisPanel analysis={plan} />}
+          {!loading && <PlanProgressBar steps={plan.steps} />}
+          {!loading && <PlanDependencyGraph steps={plan.steps} />}
           <div className="grid gap-4">
             {plan.steps.map((step, idx) => (
-              <div key={idx} className="bg-slate-800/50 border border-slate-700 p-5 rounded-lg flex flex-col md:flex-row gap-4 hover:border-vibe-accent/50 transition-colors">
-                <div className="flex-shrink-0">
-                   <div className="w-8 h-8 rounded-full bg-vibe-accent/20 text-vibe-accent flex items-center justify-center font-bold font-mono">
-                     {idx + 1}
-                   </div>
-                </div>
-                <div className="flex-grow">
-                  <h4 className="text-lg font-medium text-slate-100 mb-2">{step.title}</h4>
-                  
-                  <div className="grid md:grid-cols-2 gap-4">
-                    <div className="bg-emerald-950/30 p-3 rounded border border-emerald-500/20">
-                      <div className="flex items-center gap-2 text-emerald-400 text-xs font-bold uppercase mb-1">
-                        <CheckCircle2 className="w-3 h-3" /> {t.strategy}
-                      </div>
-                      <p className="text-slate-300 text-sm leading-relaxed">{step.promptStrategy}</p>
-                    </div>
-                    
-                    <div className="bg-amber-950/30 p-3 rounded border border-amber-500/20">
-                      <div className="flex items-center gap-2 text-amber-400 text-xs font-bold uppercase mb-1">
-                        <AlertTriangle className="w-3 h-3" /> {t.risk}
-                      </div>
-                      <p className="text-slate-300 text-sm leading-relaxed">{step.risk}</p>
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <PlanStepCard
+                key={idx}
+                step={step}
+                index={idx}
+                total={plan.steps.length}
+                contextPhase={contextPhase}
+                phaseTitle={phases.find(phase => phase.id === step.phase)?.title}
+                editing={editingIndex === idx}
+                regenerating={regeneratingIndex === idx}
+                locked={loading || regeneratingIndex !== null || (editingIndex !== null && editingIndex !== idx)}
+                error={stepError?.index === idx ? stepError.message : null}
+                dropTarget={dropIndex === idx && dragIndexRef.current !== idx}
+                onEdit={() => setEditingIndex(idx)}
+                onSave={(next) => handleSaveStep(idx, next)}
+                onCancel={() => setEditingIndex(null)}
+                onDelete={() => handleDeleteStep(idx)}
+                onRegenerate={() => handleRegenerateStep(idx)}
+                onBuildPayload={onBuildPayload && (() => onBuildPayload(step))}
+                onProgressChange={(progress) => handleProgressChange(idx, progress)}
+                onDragStart={() => { dragIndexRef.current = idx; }}
+                onDragOver={() => setDropIndex(idx)}
+                onDrop={() => handleDropStep(idx)}
+                onDragEnd={() => { dragIndexRef.current = null; setDropIndex(null); }}
+              />
             ))}
           </div>
+          {!loading && (
+            <button
+              onClick={handleAddStep}
+              disabled={regeneratingIndex !== null || editingIndex !== null}
+              className="w-full py-3 rounded-lg border border-dashed border-slate-700 text-sm text-vibe-muted hover:text-white hover:border-vibe-accent/50 flex items-center justify-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" /> {t.addStep}
+            </button>
+          )}
+          {!loading && isPlanComplete(plan.steps) && (closingOpen ? (
+            <ClosingProtocol
+              plan={plan}
+              task={taskFor(plan)}
+              title={history.find(entry => entry.id === activeId)?.name || defaultPlanName(input)}
+              settings={settings}
+            />
+          ) : (
+            <button
+              onClick={() => setClosingOpen(true)}
+              className="w-full py-3 rounded-lg border border-emerald-500/30 bg-emerald-950/20 text-sm font-semibold text-emerald-300 hover:bg-emerald-950/40 flex items-center justify-center gap-2 transition-colors"
+            >
+              <CheckCircle2 className="w-4 h-4" /> {messages.closing.open}
+            </button>
+          ))}
         </div>
       )}
     </div>
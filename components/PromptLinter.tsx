@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowUpLeft, Loader2, Sparkles, XCircle } from 'lucide-react';
+import { PromptRewrite, SOPPhase } from '../types';
+import { lintPrompt, LintSeverity } from '../services/promptLint';
+import { rewritePrompt } from '../services/geminiService';
+import { loadLLMSettings } from '../services/settingsStore';
+import { formatRoute } from '../routing/routes';
+import { useI18n } from '../i18n/I18nProvider';
+import CopyButton from './CopyButton';
+
+interface PromptLinterProps {
+  // SOP content in the active language, for the phase each finding links to.
+  phases: SOPPhase[];
+}
+
+const severityStyles: Record<LintSeverity, string> = {
+  error: 'bg-red-950/30 border-red-500/30 text-red-300',
+  warning: 'bg-amber-950/30 border-amber-500/30 text-amber-300',
+};
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-emerald-400' : score >= 50 ? 'text-amber-400' : 'text-red-400';
+
+const PromptLinter: React.FC<PromptLinterProps> = ({ phases }) => {
+  const { locale, messages } = useI18n();
+  const [draft, setDraft] = useState('');
+  const [rewrite, setRewrite] = useState<PromptRewrite | null>(null);
+  const [rewriting, setRewriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = useMemo(() => lintPrompt(draft), [draft]);
+  const t = messages.linter;
+
+  const handleRewrite = async () => {
+    setRewriting(true);
+    setError(null);
+    setRewrite(null);
+    const problems = report.findings.map(finding =>
+      `${t.rules[finding.rule].title}: ${t.rules[finding.rule].advice}${
+        finding.matches.length > 0 ? ` (${finding.matches.join(', ')})` : ''
+      }`);
+    try {
+      // Uses whatever provider is configured in the Planner.
+      const result = await rewritePrompt(draft, problems, locale, loadLLMSettings());
+      if (result.status === 'failed') {
+        setError(messages.errors[result.kind]);
+      } else {
+        setRewrite(result.rewrite);
+      }
+    } finally {
+      setRewriting(false);
+    }
+  };
+
+  const handleUseRewrite = () => {
+    if (!rewrite) return;
+    setDraft(rewrite.prompt);
+    setRewrite(null);
+  };
+
+  return (
+    <div className="w-full glass-panel rounded-2xl p-6 md:p-8 mt-8 border-t-4 border-t-vibe-accent shadow-2xl">
+      <div className="flex flex-col gap-4 mb-6">
+        <h2 className="text-2xl font-bold font-mono text-vibe-accent">
+          <span className="mr-2">🔍</span>{t.title}
+        </h2>
+        <p className="text-vibe-muted">
+          {t.desc}
+        </p>
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder={t.placeholder}
+        className="w-full h-40 bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-sm resize-y"
+      />
+
+      {draft.trim() && (
+        <div className="mt-6 space-y-4 animate-in fade-in duration-300">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-baseline gap-2">
+              <span className="text-xs font-bold text-vibe-muted uppercase tracking-wider">{t.score}</span>
+              <span className={`text-2xl font-bold font-mono ${scoreColor(report.score)}`}>{report.score}</span>
+              <span className="text-xs font-mono text-vibe-muted">/ 100</span>
+            </div>
+            <button
+              onClick={handleRewrite}
+              disabled={rewriting}
+              className="bg-vibe-accent hover:bg-indigo-400 text-white px-4 py-2 rounded-md font-semibold text-sm flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {rewriting ? <Loader2 className="animate-spin w-4 h-4" /> : <Sparkles className="w-4 h-4" />}
+              {rewriting ? t.rewriting : t.rewrite}
+            </button>
+          </div>
+
+          {report.findings.length === 0 ? (
+            <p className="text-sm text-emerald-400">{t.clean}</p>
+          ) : (
+            <ul className="space-y-3">
+              {report.findings.map(finding => {
+                const phase = phases.find(p => p.id === finding.phase);
+                const rule = t.rules[finding.rule];
+                return (
+                  <li key={finding.rule} className={`p-4 rounded-lg border ${severityStyles[finding.severity]}`}>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                      <span className="flex items-center gap-2 font-semibold text-sm">
+                        {finding.severity === 'error'
+                          ? <XCircle className="w-4 h-4 flex-shrink-0" />
+                          : <AlertTriangle className="w-4 h-4 flex-shrink-0" />}
+                        {rule.title}
+                        <span className="text-[10px] font-mono uppercase opacity-70">{t.severity[finding.severity]}</span>
+                      </span>
+                      {phase && (
+                        <a
+                          href={formatRoute({ name: 'phase', locale, phase: phase.id })}
+                          className="text-xs font-mono text-vibe-accent hover:text-white flex items-center gap-1"
+                        >
+                          {t.seePhase} {phase.title} <ArrowUpLeft className="w-3 h-3" />
+                        </a>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-300">{rule.advice}</p>
+                    {finding.matches.length > 0 && (
+                      <p className="mt-2 text-xs font-mono text-slate-400">
+                        {t.found}: {finding.matches.map(match => `"${match}"`).join(', ')}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-950/30 border border-red-500/30 rounded-lg flex items-center gap-3">
+              <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+              <p className="text-red-300 text-sm">{error}</p>
+            </div>
+          )}
+
+          {rewrite && (
+            <div className="bg-emerald-950/10 border border-emerald-500/20 rounded-xl overflow-hidden">
+              <div className="p-4 border-b border-emerald-500/20 bg-emerald-950/20 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-emerald-400 font-bold text-xs uppercase tracking-wider">{t.rewriteTitle}</span>
+                <div className="flex items-center gap-2">
+                  <CopyButton text={rewrite.prompt} label={t.copy} copiedLabel={t.copied} />
+                  <button onClick={handleUseRewrite} className="text-xs px-3 py-1.5 rounded text-vibe-muted hover:text-white hover:bg-white/5">
+                    {t.useRewrite}
+                  </button>
+                </div>
+              </div>
+              <div className="p-4 font-mono text-xs text-emerald-300 whitespace-pre-wrap bg-black/20">{rewrite.prompt}</div>
+              {rewrite.changes.length > 0 && (
+                <div className="p-4 border-t border-emerald-500/20">
+                  <div className="text-[10px] font-bold text-vibe-muted uppercase tracking-wider mb-2">{t.changes}</div>
+                  <ul className="space-y-1 text-sm text-slate-300 list-disc list-inside">
+                    {rewrite.changes.map((change, i) => <li key={i}>{change}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptLinter;
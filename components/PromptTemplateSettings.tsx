@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, FileCode2, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import {
+  copyTemplate,
+  latestTemplates,
+  loadCustomTemplates,
+  removeTemplate,
+  saveTemplateVersion,
+  TEMPLATE_VARIABLES,
+  templateIssues
+} from '../services/promptTemplates';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface PromptTemplateSettingsProps {
+  template: PromptTemplate;
+  onChange: (template: PromptTemplate) => void;
+}
+
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({ template, onChange }) => {
+  const t = useI18n().messages.templates;
+  const [custom, setCustom] = useState<PromptTemplate[]>(loadCustomTemplates);
+  const [draft, setDraft] = useState(template.body);
+  const [newName, setNewName] = useState('');
+
+  // Switching templates (or saving a version) discards the edits made to the previous one.
+  useEffect(() => {
+    setDraft(template.body);
+  }, [template.id, template.version]);
+
+  const templates = latestTemplates(custom);
+  const issues = templateIssues(draft);
+  const dirty = draft !== template.body;
+
+  const handleSaveVersion = () => {
+    const { custom: next, saved } = saveTemplateVersion(custom, template, draft);
+    setCustom(next);
+    onChange(saved);
+  };
+
+  const handleCopy = () => {
+    if (!newName.trim()) return;
+    const { custom: next, saved } = copyTemplate(custom, { ...template, body: draft }, newName.trim());
+    setCustom(next);
+    setNewName('');
+    onChange(saved);
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(t.confirmDelete)) return;
+    const next = removeTemplate(custom, template.id);
+    setCustom(next);
+    onChange(latestTemplates(next)[0]);
+  };
+
+  const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs";
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+  const buttonClass = "text-xs px-3 py-2 rounded-md font-semibold flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <details className="mb-4 bg-slate-900/40 rounded-lg border border-slate-700 group">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center gap-2 text-sm text-slate-300">
+        <FileCode2 className="w-4 h-4 text-vibe-accent" />
+        {t.title}
+        <span className="ml-auto font-mono text-xs text-vibe-muted">{template.name} · v{template.version}</span>
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+            <span className={labelClass}>{t.template}</span>
+            <select
+              value={template.id}
+              onChange={(e) => onChange(templates.find(entry => entry.id === e.target.value) || template)}
+              className={inputClass}
+            >
+              {templates.map(entry => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name} · v{entry.version}{entry.builtIn ? ` (${t.builtIn})` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+          {!template.builtIn && (
+            <button
+              onClick={handleRemove}
+              className="p-2 rounded text-slate-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+              title={t.remove}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="flex flex-wrap items-baseline justify-between gap-2">
+            <span className={labelClass}>{t.body}</span>
+            <span className="text-[10px] font-mono text-vibe-muted">
+              {TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(' ')}
+            </span>
+          </span>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            rows={12}
+            className={`${inputClass} resize-y`}
+          />
+        </label>
+        <p className="text-xs text-vibe-muted">{template.builtIn ? t.builtInHint : t.customHint}</p>
+
+        {issues.length > 0 && (
+          <ul className="space-y-1">
+            {issues.map(issue => (
+              <li key={issue.kind === 'unknown_variable' ? issue.name : issue.kind} className="flex items-center gap-2 text-xs text-amber-300">
+                <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                {issue.kind === 'missing_task' ? t.missingTask : t.unknownVariable(issue.name)}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {dirty && (
+            <button onClick={() => setDraft(template.body)} className={`${buttonClass} text-vibe-muted hover:text-white hover:bg-white/5`}>
+              <RotateCcw className="w-3.5 h-3.5" /> {t.discard}
+            </button>
+          )}
+          {!template.builtIn && (
+            <button
+              onClick={handleSaveVersion}
+              disabled={!dirty || issues.length > 0}
+              className={`${buttonClass} bg-vibe-accent hover:bg-indigo-400 text-white`}
+            >
+              <Save className="w-3.5 h-3.5" /> {t.saveVersion(template.version + 1)}
+            </button>
+          )}
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t.newName}
+            className={`${inputClass} flex-1 min-w-[10rem] w-auto`}
+          />
+          <button
+            onClick={handleCopy}
+            disabled={!newName.trim() || issues.length > 0}
+            className={`${buttonClass} bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200`}
+          >
+            <Plus className="w-3.5 h-3.5" /> {t.saveAsNew}
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default PromptTemplateSettings;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { LLMProviderId, LLMSettings } from '../types';
+import { PROVIDER_DEFAULTS, requiresApiKey } from '../services/providers';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ProviderSettingsProps {
+  settings: LLMSettings;
+  onChange: (settings: LLMSettings) => void;
+}
+
+const providerLabels: Record<LLMProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  ollama: 'Ollama (local)',
+  mock: 'Mock (offline)',
+};
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, onChange }) => {
+  const t = useI18n().messages.provider;
+
+  const handleProvider = (provider: LLMProviderId) => {
+    onChange({ ...PROVIDER_DEFAULTS[provider], apiKey: settings.apiKey });
+  };
+
+  const showBaseUrl = settings.provider === 'openai' || settings.provider === 'ollama';
+  const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs";
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+
+  return (
+    <details className="mb-4 bg-slate-900/40 rounded-lg border border-slate-700 group">
+      <summary className="cursor-pointer select-none px-4 py-3 flex items-center gap-2 text-sm text-slate-300">
+        <Settings2 className="w-4 h-4 text-vibe-accent" />
+        {t.title}
+        <span className="ml-auto font-mono text-xs text-vibe-muted">{providerLabels[settings.provider]} · {settings.model}</span>
+      </summary>
+      <div className="px-4 pb-4 grid md:grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t.provider}</span>
+          <select
+            value={settings.provider}
+            onChange={(e) => handleProvider(e.target.value as LLMProviderId)}
+            className={inputClass}
+          >
+            {(Object.keys(providerLabels) as LLMProviderId[]).map(id => (
+              <option key={id} value={id}>{providerLabels[id]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={labelClass}>{t.model}</span>
+          <input
+            value={settings.model}
+            onChange={(e) => onChange({ ...settings, model: e.target.value })}
+            disabled={settings.provider === 'mock'}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </label>
+        {showBaseUrl && (
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>{t.baseUrl}</span>
+            <input
+              value={settings.baseUrl}
+              onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+              placeholder={PROVIDER_DEFAULTS[settings.provider].baseUrl}
+              className={inputClass}
+            />
+          </label>
+        )}
+        {requiresApiKey(settings.provider) && (
+          <label className="flex flex-col gap-1">
+            <span className={labelClass}>{t.apiKey}</span>
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+              placeholder={t.apiKeyHint}
+              className={inputClass}
+            />
+          </label>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,41 @@
+import React from 'react';
+import {
+  ArchiveRestore,
+  BrainCircuit,
+  GitCommit,
+  Layers,
+  LucideIcon,
+  ScrollText,
+  SearchCheck,
+  Terminal,
+  ThumbsDown,
+  ThumbsUp,
+  Wrench,
+} from 'lucide-react';
+import { SOPIconName } from '../types';
+
+// Every name the content files may use; keep in sync with SOP_ICON_NAMES.
+const icons: Record<SOPIconName, LucideIcon> = {
+  ArchiveRestore,
+  BrainCircuit,
+  GitCommit,
+  Layers,
+  ScrollText,
+  SearchCheck,
+  Terminal,
+  ThumbsDown,
+  ThumbsUp,
+  Wrench,
+};
+
+interface SOPIconProps {
+  name: SOPIconName;
+  className?: string;
+}
+
+const SOPIcon: React.FC<SOPIconProps> = ({ name, className = 'w-6 h-6' }) => {
+  const Icon = icons[name];
+  return <Icon className={className} />;
+};
+
+export default SOPIcon;
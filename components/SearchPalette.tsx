@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CornerDownLeft, Search } from 'lucide-react';
+import { SOPPhase } from '../types';
+import { buildSearchIndex, SearchEntry, searchIndex, snippet } from '../services/sopSearch';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SearchPaletteProps {
+  open: boolean;
+  phases: SOPPhase[];
+  onClose: () => void;
+  onSelect: (entry: SearchEntry) => void;
+}
+
+const Highlighted: React.FC<{ text: string; ranges: [number, number][] }> = ({ text, ranges }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], idx) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={idx} className="bg-vibe-accent/30 text-white rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ open, phases, onClose, onSelect }) => {
+  const t = useI18n().messages.search;
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const index = useMemo(() => buildSearchIndex(phases), [phases]);
+  const hits = useMemo(() => searchIndex(index, query), [index, query]);
+
+  useEffect(() => setSelected(0), [query]);
+  useEffect(() => {
+    if (open) setQuery('');
+  }, [open]);
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  if (!open) return null;
+
+  const choose = (idx: number) => {
+    const hit = hits[idx];
+    if (!hit) return;
+    onSelect(hit.entry);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(idx => Math.min(idx + 1, hits.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(idx => Math.max(idx - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(selected);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-start justify-center pt-24 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.open}
+        className="w-full max-w-xl glass-panel rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-white/10">
+          <Search className="w-4 h-4 text-vibe-muted flex-shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t.placeholder}
+            className="w-full bg-transparent py-4 text-sm text-white placeholder-slate-500 focus:outline-none"
+          />
+        </div>
+
+        {query.trim() && (
+          hits.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-vibe-muted text-center">{t.noResults}</p>
+          ) : (
+            <ul ref={listRef} className="max-h-96 overflow-y-auto scrollbar-hide py-2">
+              {hits.map((hit, idx) => {
+                const { text, ranges } = snippet(hit);
+                return (
+                  <li key={`${hit.entry.phaseId}-${hit.entry.anchor}`}>
+                    <button
+                      onClick={() => choose(idx)}
+                      onMouseMove={() => setSelected(idx)}
+                      className={`w-full text-left px-4 py-2.5 flex items-start gap-3 ${idx === selected ? 'bg-vibe-accent/10' : ''}`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[10px] font-mono text-vibe-muted uppercase tracking-wider mb-0.5">
+                          {hit.entry.phaseTitle} · {t.fields[hit.entry.field]}
+                        </div>
+                        <div className="text-sm text-slate-300 line-clamp-2 whitespace-pre-line">
+                          <Highlighted text={text} ranges={ranges} />
+                        </div>
+                      </div>
+                      {idx === selected && <CornerDownLeft className="w-3.5 h-3.5 text-vibe-accent mt-4 flex-shrink-0" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )
+        )}
+
+        <div className="px-4 py-2 border-t border-white/10 text-[10px] font-mono text-vibe-muted">{t.hint}</div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { AISession, InteractionOutcome } from '../types';
+import {
+  addSession,
+  logInteraction,
+  removeInteraction,
+  removeSession,
+  restartAdvice
+} from '../services/sessionLog';
+import { formatDuration } from '../services/stepProgress';
+import { useI18n } from '../i18n/I18nProvider';
+import { LOCALES } from '../i18n/locales';
+
+interface SessionLoggerProps {
+  sessions: AISession[];
+  activeSession: AISession | null;
+  onSessionsChange: (sessions: AISession[]) => void;
+  onSelect: (id: string | null) => void;
+}
+
+const OUTCOMES: InteractionOutcome[] = ['accepted', 'rejected', 'reset'];
+
+const outcomeStyles: Record<InteractionOutcome, string> = {
+  accepted: 'bg-emerald-950/40 text-emerald-300 border-emerald-500/40',
+  rejected: 'bg-red-950/40 text-red-300 border-red-500/40',
+  reset: 'bg-amber-950/40 text-amber-300 border-amber-500/40',
+};
+
+// Longer gaps are breaks, not time spent on the prompt.
+const MAX_SUGGESTED_MINUTES = 30;
+
+const SessionLogger: React.FC<SessionLoggerProps> = ({ sessions, activeSession, onSessionsChange, onSelect }) => {
+  const { locale, messages } = useI18n();
+  const [prompt, setPrompt] = useState('');
+  const [restarted, setRestarted] = useState(false);
+  const [minutes, setMinutes] = useState('');
+
+  const t = messages.sessions;
+
+  const handleNewSession = () => {
+    const date = new Date().toLocaleString(LOCALES[locale].tag, { dateStyle: 'short', timeStyle: 'short' });
+    const { sessions: next, saved } = addSession(sessions, t.defaultName(date));
+    onSessionsChange(next);
+    onSelect(saved.id);
+  };
+
+  const handleDeleteSession = () => {
+    if (!activeSession || !window.confirm(t.confirmDelete)) return;
+    onSessionsChange(removeSession(sessions, activeSession.id));
+    onSelect(null);
+  };
+
+  // Time since the previous entry is the best guess for how long this prompt took.
+  const lastAt = activeSession?.interactions[activeSession.interactions.length - 1]?.at ?? activeSession?.startedAt;
+  const suggestedMinutes = lastAt ? Math.min(MAX_SUGGESTED_MINUTES, Math.round((Date.now() - lastAt) / 6000) / 10) : 0;
+
+  const handleLog = (outcome: InteractionOutcome) => {
+    if (!activeSession) return;
+    const spent = minutes.trim() ? Number(minutes) : suggestedMinutes;
+    onSessionsChange(logInteraction(sessions, activeSession.id, {
+      at: Date.now(),
+      prompt: prompt.trim(),
+      outcome,
+      // The first prompt of a session always starts a chat.
+      restarted: restarted || activeSession.interactions.length === 0,
+      durationMs: Math.max(0, Math.round((Number.isFinite(spent) ? spent : 0) * 60_000)),
+    }));
+    setPrompt('');
+    setRestarted(false);
+    setMinutes('');
+  };
+
+  const advice = activeSession ? restartAdvice(activeSession) : [];
+  const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-vibe-glow transition-all font-mono text-xs";
+  const labelClass = "text-[10px] font-bold text-vibe-muted uppercase tracking-wider";
+
+  return (
+    <div className="w-full glass-panel rounded-2xl p-6 md:p-8 mt-8 border-t-4 border-t-vibe-accent shadow-2xl">
+      <div className="flex flex-col gap-4 mb-6">
+        <h2 className="text-2xl font-bold font-mono text-vibe-accent">
+          <span className="mr-2">📈</span>{t.title}
+        </h2>
+        <p className="text-vibe-muted">
+          {t.desc}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <select
+          value={activeSession?.id || ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          disabled={sessions.length === 0}
+          aria-label={t.session}
+          className="flex-1 min-w-[12rem] bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2 text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-vibe-glow disabled:opacity-50"
+        >
+          {sessions.map(session => (
+            <option key={session.id} value={session.id}>{session.name} ({session.interactions.length})</option>
+          ))}
+        </select>
+        <button
+          onClick={handleNewSession}
+          className="text-xs px-3 py-2 rounded-md bg-vibe-accent hover:bg-indigo-400 text-white font-semibold flex items-center gap-1.5"
+        >
+          <Plus className="w-3.5 h-3.5" /> {t.newSession}
+        </button>
+        {activeSession && (
+          <button
+            onClick={handleDeleteSession}
+            className="p-2 rounded text-slate-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+            title={t.deleteSession}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {!activeSession ? (
+        <p className="text-sm text-vibe-muted">{t.empty}</p>
+      ) : (
+        <div className="space-y-6">
+          {advice.map(entry => (
+            <div key={entry.reason} className="p-3 bg-amber-950/30 border border-amber-500/30 rounded-lg flex items-center gap-3">
+              <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0" />
+              <p className="text-amber-300 text-sm">
+                {entry.reason === 'five_minutes' ? t.restartFiveMinutes(formatDuration(entry.timeSpentMs)) : t.restartRejections(entry.misses)}
+              </p>
+            </div>
+          ))}
+
+          <div className="space-y-3">
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              placeholder={t.prompt}
+              rows={2}
+              className={`${inputClass} resize-y`}
+            />
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="flex flex-col gap-1 w-32">
+                <span className={labelClass}>{t.minutes}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={minutes}
+                  onChange={(e) => setMinutes(e.target.value)}
+                  placeholder={String(suggestedMinutes)}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-2 pb-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={restarted}
+                  onChange={(e) => setRestarted(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                {t.restarted}
+              </label>
+              <div className="flex flex-col gap-1 ml-auto">
+                <span className={labelClass}>{t.log}</span>
+                <div className="flex gap-2">
+                  {OUTCOMES.map(outcome => (
+                    <button
+                      key={outcome}
+                      onClick={() => handleLog(outcome)}
+                      className={`text-xs px-3 py-2 rounded-md border font-semibold transition-colors hover:brightness-125 ${outcomeStyles[outcome]}`}
+                    >
+                      {t.outcomes[outcome]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {activeSession.interactions.length === 0 ? (
+            <p className="text-sm text-vibe-muted">{t.noInteractions}</p>
+          ) : (
+            <ol className="space-y-2">
+              {activeSession.interactions.map((interaction, idx) => (
+                <li key={interaction.id} className="flex items-center gap-3 text-sm bg-slate-900/40 border border-slate-700 rounded-lg px-3 py-2">
+                  <span className="font-mono text-xs text-vibe-muted w-6">#{idx + 1}</span>
+                  <span className={`text-[10px] font-mono px-2 py-0.5 rounded-full border ${outcomeStyles[interaction.outcome]}`}>
+                    {t.outcomes[interaction.outcome]}
+                  </span>
+                  {interaction.restarted && (
+                    <span className="flex items-center gap-1 text-[10px] font-mono text-sky-300">
+                      <RotateCcw className="w-3 h-3" /> {t.fresh}
+                    </span>
+                  )}
+                  <span className="flex-1 min-w-0 truncate text-slate-300">{interaction.prompt}</span>
+                  <span className="font-mono text-xs text-vibe-muted">{formatDuration(interaction.durationMs)}</span>
+                  <button
+                    onClick={() => onSessionsChange(removeInteraction(sessions, activeSession.id, interaction.id))}
+                    className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-white/5 transition-colors"
+                    title={t.remove}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionLogger;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, Timer, AlertOctagon } from 'lucide-react';
+import { StepProgress, StepStatus } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { elapsedMs, exceedsFiveMinuteRule, formatDuration, startTimer, stopTimer, withStatus } from '../services/stepProgress';
+
+interface StepProgressPanelProps {
+  progress: StepProgress;
+  locked: boolean;
+  onChange: (progress: StepProgress) => void;
+}
+
+const TICK_MS = 1000;
+
+export const statusStyles: Record<StepStatus, string> = {
+  todo: 'text-slate-400 border-slate-600',
+  in_progress: 'text-sky-300 border-sky-500/50 bg-sky-500/10',
+  done: 'text-emerald-300 border-emerald-500/50 bg-emerald-500/10',
+  failed: 'text-red-300 border-red-500/50 bg-red-500/10',
+  skipped: 'text-slate-500 border-slate-600 bg-slate-700/30 line-through',
+};
+
+const StepProgressPanel: React.FC<StepProgressPanelProps> = ({ progress, locked, onChange }) => {
+  const [now, setNow] = useState(Date.now());
+  const [notes, setNotes] = useState(progress.notes);
+
+  useEffect(() => setNotes(progress.notes), [progress.notes]);
+
+  // Only tick while the clock runs, so idle cards don't re-render every second.
+  useEffect(() => {
+    if (!progress.startedAt) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [progress.startedAt]);
+
+  const { messages } = useI18n();
+  const t = { ...messages.stepProgress, statuses: messages.stepStatus };
+
+  const running = Boolean(progress.startedAt);
+  const elapsed = elapsedMs(progress, now);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700/60 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(t.statuses) as StepStatus[]).map(status => (
+          <button
+            key={status}
+            disabled={locked}
+            onClick={() => onChange(withStatus(progress, status))}
+            className={`text-[11px] px-2 py-1 rounded-full border transition-colors disabled:cursor-not-allowed ${
+              progress.status === status ? statusStyles[status] : 'text-slate-500 border-slate-700 hover:text-slate-300'
+            }`}
+          >
+            {t.statuses[status]}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-2 font-mono text-xs text-vibe-muted">
+          <Timer className="w-3 h-3" />
+          <span className={exceedsFiveMinuteRule(progress, now) ? 'text-red-400' : ''}>{formatDuration(elapsed)}</span>
+          <button
+            disabled={locked}
+            onClick={() => onChange(running ? stopTimer(progress) : startTimer(progress))}
+            className="p-1 rounded hover:bg-white/5 hover:text-white transition-colors disabled:opacity-30"
+            title={running ? t.pause : t.start}
+          >
+            {running ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          </button>
+        </div>
+      </div>
+
+      {exceedsFiveMinuteRule(progress, now) && (
+        <p className="flex items-start gap-2 text-xs text-red-300 bg-red-950/30 border border-red-500/30 rounded p-2">
+          <AlertOctagon className="w-3 h-3 mt-0.5 flex-shrink-0" /> {t.fiveMinutes}
+        </p>
+      )}
+
+      <textarea
+        rows={2}
+        value={notes}
+        disabled={locked}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => notes !== progress.notes && onChange({ ...progress, notes })}
+        placeholder={t.notes}
+        className="w-full bg-slate-900/40 border border-slate-700 rounded-md px-3 py-2 text-xs text-slate-300 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-vibe-glow resize-y font-mono"
+      />
+    </div>
+  );
+};
+
+export default StepProgressPanel;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Shown next to SOP text that fell back to English because the translation is missing.
+const UntranslatedMark: React.FC = () => {
+  const { messages } = useI18n();
+  return (
+    <span
+      title={messages.untranslated}
+      className="inline-flex items-center gap-0.5 ml-1.5 align-middle text-[9px] font-mono font-normal normal-case tracking-normal px-1 py-0.5 rounded border border-amber-500/40 text-amber-300 bg-amber-500/10"
+    >
+      <Languages className="w-2.5 h-2.5" /> EN
+    </span>
+  );
+};
+
+export default UntranslatedMark;
@@ -0,0 +1,30 @@
+import fs from 'fs';
+import path from 'path';
+import { formatIssue } from '../services/planValidator';
+import { checkSopContent, SOP_CONTENT_FILES } from '../services/sopContent';
+import { Locale } from '../i18n/locales';
+
+// `npm run check:content`: the content check `vite build` runs, without building the app.
+// Translation gaps fail it like they fail the production build.
+const main = (): number => {
+  const files = {} as Record<Locale, string>;
+  try {
+    for (const [locale, file] of Object.entries(SOP_CONTENT_FILES) as [Locale, string][]) {
+      // npm scripts run from the package root, where the content paths are relative to.
+      files[locale] = fs.readFileSync(path.resolve(file), 'utf-8');
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+
+  const { errors, parity } = checkSopContent(files);
+  if (errors.length > 0) console.error(`Invalid SOP content:\n${errors.map(formatIssue).join('\n')}`);
+  if (parity.length > 0) console.error(`SOP translations out of sync:\n${parity.map(formatIssue).join('\n')}`);
+  if (errors.length > 0 || parity.length > 0) return 1;
+
+  console.log(`SOP content OK: ${Object.values(SOP_CONTENT_FILES).join(', ')}`);
+  return 0;
+};
+
+process.exitCode = main();
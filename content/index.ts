@@ -0,0 +1,28 @@
+import { SOPPhase } from '../types';
+import { formatIssue } from '../services/planValidator';
+import { Locale } from '../i18n/locales';
+import { BASE_LOCALE, localizePhases, SOPContent, validateSopContent } from '../services/sopContent';
+import en from './phases.en.json';
+import zh from './phases.zh.json';
+
+const raw: Record<Locale, unknown> = { en, zh };
+const cache: Partial<Record<Locale, SOPPhase[]>> = {};
+
+const load = (locale: Locale): SOPContent => {
+  const { value, issues } = validateSopContent(raw[locale], locale, locale === BASE_LOCALE);
+  if (!value) throw new Error(`Invalid SOP content:\n${issues.map(formatIssue).join('\n')}`);
+  return value;
+};
+
+/**
+ * SOP phases for one locale, in display order. Gaps in a translation are filled from the
+ * base locale and marked via `SOPPhase.untranslated`. The build already rejects malformed
+ * content, so a throw here means the files were changed without rebuilding.
+ */
+export const getPhases = (locale: Locale): SOPPhase[] => {
+  if (!cache[locale]) {
+    const base = load(BASE_LOCALE);
+    cache[locale] = locale === BASE_LOCALE ? localizePhases(base) : localizePhases(base, load(locale));
+  }
+  return cache[locale];
+};
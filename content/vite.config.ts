@@ -0,0 +1,20 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Node build of `npm run check:content`, the SOP content check without the app build.
+export default defineConfig(() => {
+  const root = path.resolve(__dirname, '..');
+  return {
+    root,
+    logLevel: 'warn' as const,
+    build: {
+      ssr: path.resolve(__dirname, 'check.ts'),
+      outDir: path.resolve(root, 'dist/content'),
+      emptyOutDir: true,
+      target: 'node18',
+      rollupOptions: {
+        output: { entryFileNames: 'check.js' },
+      },
+    },
+  };
+});
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { LLMProviderId, TemplateRef } from '../types';
+import { isLocale, Locale } from '../i18n/locales';
+import { LLMProvider, LLMRequest } from '../services/providers';
+import { PlannerError } from '../services/plannerError';
+import { isProviderId } from '../services/settingsStore';
+import { isRecord } from '../services/planValidator';
+
+export interface EvalCase {
+  id: string;
+  lang: Locale;
+  task: string;
+}
+
+// Everything the model returned for one case, so a run can be replayed without network.
+export interface Fixture {
+  caseId: string;
+  template: TemplateRef;
+  provider: LLMProviderId;
+  model: string;
+  recordedAt: string;
+  // Raw model output in call order: the plan, then any repair attempts.
+  responses: string[];
+  // Set when the responses were edited by hand rather than recorded verbatim: what was changed and why.
+  note?: string;
+}
+
+const isEvalCase = (value: unknown): value is EvalCase =>
+  isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.task === 'string'
+    && typeof value.lang === 'string'
+    && isLocale(value.lang);
+
+const isFixture = (value: unknown): value is Fixture =>
+  isRecord(value)
+    && typeof value.caseId === 'string'
+    && isRecord(value.template)
+    && typeof value.template.id === 'string'
+    && typeof value.template.version === 'number'
+    && isProviderId(value.provider)
+    && typeof value.model === 'string'
+    && Array.isArray(value.responses)
+    && value.responses.every(response => typeof response === 'string')
+    && (value.note === undefined || typeof value.note === 'string');
+
+/** Throws when the corpus file is missing or malformed: there is nothing to evaluate without it. */
+export const readCorpus = (file: string): EvalCase[] => {
+  const parsed: unknown = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(parsed) || !parsed.every(isEvalCase)) throw new Error(`${file}: expected an array of { id, lang, task }`);
+  return parsed;
+};
+
+const fixturePath = (dir: string, caseId: string) => path.join(dir, `${caseId}.json`);
+
+/** Null when the case was never recorded for this variant, or its file is unreadable. */
+export const readFixture = (dir: string, caseId: string): Fixture | null => {
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(fixturePath(dir, caseId), 'utf-8'));
+    return isFixture(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeFixture = (dir: string, fixture: Fixture): void => {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(fixturePath(dir, fixture.caseId), `${JSON.stringify(fixture, null, 2)}\n`);
+};
+
+/** Hands out the recorded responses in order; running out means the code now asks for more than was recorded. */
+export const createReplayProvider = (fixture: Fixture): LLMProvider => {
+  let next = 0;
+  const respond = () => {
+    if (next >= fixture.responses.length) {
+      throw new PlannerError('empty', `${fixture.caseId}: no recorded response left (call ${next + 1})`);
+    }
+    return fixture.responses[next++];
+  };
+  return {
+    id: fixture.provider,
+    generateJson: async () => respond(),
+    streamJson: async function* () {
+      yield respond();
+    },
+  };
+};
+
+/** Passes calls through to `inner` and keeps every successful response, in order. */
+export const createRecordingProvider = (inner: LLMProvider, responses: string[]): LLMProvider => ({
+  id: inner.id,
+  generateJson: async (request: LLMRequest, signal?: AbortSignal) => {
+    const text = await inner.generateJson(request, signal);
+    responses.push(text);
+    return text;
+  },
+  streamJson: async function* (request: LLMRequest, signal?: AbortSignal) {
+    let text = '';
+    for await (const chunk of inner.streamJson(request, signal)) {
+      text += chunk;
+      yield chunk;
+    }
+    responses.push(text);
+  },
+});
@@ -0,0 +1,255 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { LLMSettings } from '../types';
+import { generateExecutionPlan } from '../services/geminiService';
+import { createProvider, DEFAULT_LLM_SETTINGS, PROVIDER_DEFAULTS } from '../services/providers';
+import { isProviderId } from '../services/settingsStore';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from '../services/retry';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE, findTemplate, templateRef } from '../services/promptTemplates';
+import { DEFAULT_LOCALE, getMessages, isLocale, Locale } from '../i18n/locales';
+import { createRecordingProvider, createReplayProvider, EvalCase, readCorpus, readFixture, writeFixture } from './fixtures';
+import { CaseScore, scorePlan, summarize, VariantSummary } from './score';
+
+// npm scripts run from the package root, where the corpus and fixtures live.
+const EVAL_DIR = path.resolve('eval');
+const CORPUS_FILE = path.join(EVAL_DIR, 'corpus.json');
+const FIXTURES_DIR = path.join(EVAL_DIR, 'fixtures');
+
+// Recording retries with the default policy and keeps every response it got, including an
+// empty one that was retried, so replays retry just as often. Only the waiting is dropped:
+// recorded responses arrive at once.
+const REPLAY_RETRY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 0 };
+
+// Same keys as `npm run sop`: `.env` first (without overriding the shell), and
+// GEMINI_API_KEY as the name the Gemini provider reads as API_KEY.
+const loadEnv = () => {
+  const envFile = path.resolve('.env');
+  if (typeof process.loadEnvFile === 'function' && fs.existsSync(envFile)) process.loadEnvFile(envFile);
+  if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+};
+
+type Scores = Map<string, CaseScore | null>;
+
+const variantDir = (variant: string) => path.join(FIXTURES_DIR, variant);
+
+const replayVariant = async (corpus: EvalCase[], variant: string): Promise<Scores> => {
+  const scores: Scores = new Map();
+  for (const evalCase of corpus) {
+    const fixture = readFixture(variantDir(variant), evalCase.id);
+    if (!fixture) {
+      scores.set(evalCase.id, null);
+      continue;
+    }
+    // Same parsing and repair path as the Workshop; only the provider is swapped for the recording.
+    const result = await generateExecutionPlan(evalCase.task, evalCase.lang, PROVIDER_DEFAULTS[fixture.provider] || DEFAULT_LLM_SETTINGS, {
+      provider: createReplayProvider(fixture),
+      template: findTemplate([], fixture.template) || DEFAULT_TEMPLATE,
+      retry: REPLAY_RETRY,
+    });
+    scores.set(evalCase.id, scorePlan(result, evalCase.lang));
+  }
+  return scores;
+};
+
+const recorded = (scores: Scores): CaseScore[] =>
+  Array.from(scores.values()).filter((score): score is CaseScore => score !== null);
+
+const missing = (scores: Scores): string[] =>
+  Array.from(scores.entries()).filter(([, score]) => score === null).map(([id]) => id);
+
+const percent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+// CJK characters take two terminal columns, so `--lang zh` reports need wider padding.
+const WIDE = /[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+const width = (cell: string) => cell.length + (cell.match(WIDE) || []).length;
+
+const table = (rows: string[][]): string => {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => width(row[col]))));
+  return rows
+    .map(row => row.map((cell, col) => cell + ' '.repeat(widths[col] - width(cell))).join('  ').trimEnd())
+    .join('\n');
+};
+
+const summaryRows = (summary: VariantSummary, lang: Locale): string[][] => {
+  const t = getMessages(lang).evaluation;
+  return [
+    [t.meanScore, String(summary.meanScore)],
+    [t.valid, `${summary.valid}/${summary.cases}`],
+    [t.firstTry, `${summary.firstTry}/${summary.cases}`],
+    [t.repairs, String(summary.repairs)],
+    [t.atomicity, percent(summary.atomicity)],
+    [t.risk, percent(summary.risk)],
+    [t.language, percent(summary.language)],
+  ];
+};
+
+const printRun = (corpus: EvalCase[], variant: string, scores: Scores, lang: Locale) => {
+  const t = getMessages(lang).evaluation;
+  const rows = corpus.map(evalCase => {
+    const score = scores.get(evalCase.id);
+    if (!score) return [evalCase.id, t.status.missing, '', '', '', '', ''];
+    return [
+      evalCase.id,
+      t.status[score.status],
+      String(score.steps),
+      percent(score.atomicity),
+      percent(score.risk),
+      percent(score.language),
+      String(score.score),
+    ];
+  });
+  const c = t.columns;
+  console.log(t.variant(variant, recorded(scores).length));
+  console.log('');
+  console.log(table([[c.case, c.status, c.steps, c.atomic, c.risk, c.language, c.score], ...rows]));
+  console.log('');
+  console.log(table(summaryRows(summarize(recorded(scores)), lang)));
+  const skipped = missing(scores);
+  if (skipped.length > 0) console.log(`\n${t.missing(skipped)}`);
+};
+
+/** Only cases recorded for both variants are compared, so a missing fixture cannot skew the means. */
+const printComparison = (corpus: EvalCase[], names: [string, string], scores: [Scores, Scores], lang: Locale): VariantSummary[] => {
+  const t = getMessages(lang).evaluation;
+  const shared = corpus.filter(evalCase => scores.every(variant => variant.get(evalCase.id)));
+  const pick = (variant: Scores) => shared.map(evalCase => variant.get(evalCase.id) as CaseScore);
+  const summaries = scores.map(variant => summarize(pick(variant)));
+
+  const caseRows = shared.map(evalCase => {
+    const [a, b] = scores.map(variant => (variant.get(evalCase.id) as CaseScore).score);
+    return [evalCase.id, String(a), String(b), signed(b - a)];
+  });
+  const [left, right] = summaries.map(summary => summaryRows(summary, lang));
+
+  console.log(t.comparing(names[0], names[1], shared.length));
+  console.log('');
+  console.log(table([[t.columns.case, names[0], names[1], t.delta], ...caseRows]));
+  console.log('');
+  console.log(table([['', names[0], names[1]], ...left.map((row, idx) => [row[0], row[1], right[idx][1]])]));
+  const skipped = corpus.filter(evalCase => !shared.includes(evalCase)).map(evalCase => evalCase.id);
+  if (skipped.length > 0) console.log(`\n${t.missing(skipped)}`);
+  return summaries;
+};
+
+const main = async (): Promise<number> => {
+  loadEnv();
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      lang: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      template: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const lang = values.lang && isLocale(values.lang) ? values.lang : DEFAULT_LOCALE;
+  const t = getMessages(lang).evaluation;
+  const [command, ...args] = positionals;
+
+  if (!command || values.help) {
+    console.log(t.usage);
+    return command ? 0 : 2;
+  }
+  if (args.length === 0 || (command === 'compare' && args.length < 2)) {
+    console.error(t.missingVariant);
+    return 2;
+  }
+
+  const corpus = readCorpus(CORPUS_FILE);
+  const unknown = (command === 'record' ? [] : args.slice(0, 2)).find(variant => !fs.existsSync(variantDir(variant)));
+  if (unknown) {
+    console.error(t.unknownVariant(unknown, FIXTURES_DIR));
+    return 2;
+  }
+
+  switch (command) {
+    case 'run': {
+      const scores = await replayVariant(corpus, args[0]);
+      printRun(corpus, args[0], scores, lang);
+      return 0;
+    }
+
+    case 'compare': {
+      const names: [string, string] = [args[0], args[1]];
+      const scores: [Scores, Scores] = [await replayVariant(corpus, names[0]), await replayVariant(corpus, names[1])];
+      const [a, b] = printComparison(corpus, names, scores, lang);
+      // Non-zero so a CI job can block a prompt or model change that makes plans worse.
+      if (b.meanScore < a.meanScore) {
+        console.log(`\n${t.regression(names[0], names[1])}`);
+        return 1;
+      }
+      return 0;
+    }
+
+    case 'record': {
+      const provider = values.provider || 'gemini';
+      if (!isProviderId(provider)) {
+        console.error(getMessages(lang).cli.invalidChoice('--provider', provider, Object.keys(PROVIDER_DEFAULTS)));
+        return 2;
+      }
+      const settings: LLMSettings = {
+        ...PROVIDER_DEFAULTS[provider],
+        ...(values.model ? { model: values.model } : {}),
+        ...(values['base-url'] ? { baseUrl: values['base-url'] } : {}),
+      };
+      const template = values.template
+        ? BUILT_IN_TEMPLATES.find(entry => entry.id === values.template)
+        : DEFAULT_TEMPLATE;
+      if (!template) {
+        console.error(getMessages(lang).cli.unknownTemplate(values.template || '', BUILT_IN_TEMPLATES.map(entry => entry.id)));
+        return 2;
+      }
+      const inner = createProvider(settings);
+      if (!inner) {
+        console.error(getMessages(lang).errors.missing_key);
+        return 2;
+      }
+
+      let saved = 0;
+      for (const evalCase of corpus) {
+        const responses: string[] = [];
+        const result = await generateExecutionPlan(evalCase.task, evalCase.lang, settings, {
+          provider: createRecordingProvider(inner, responses),
+          template,
+        });
+        // A plan that failed validation is still a result worth replaying; a failed call is not.
+        if (responses.length === 0) {
+          console.error(t.recordFailed(evalCase.id, result.status === 'failed' ? result.reasons.join('; ') : ''));
+          continue;
+        }
+        writeFixture(variantDir(args[0]), {
+          caseId: evalCase.id,
+          template: templateRef(template),
+          provider,
+          model: settings.model,
+          recordedAt: new Date().toISOString(),
+          responses,
+        });
+        saved++;
+        console.log(t.recorded(evalCase.id, t.status[result.status]));
+      }
+      console.log(t.saved(saved, variantDir(args[0])));
+      return saved === corpus.length ? 0 : 1;
+    }
+
+    default:
+      console.error(getMessages(lang).cli.unknownCommand(command));
+      console.log(t.usage);
+      return 2;
+  }
+};
+
+// A missing or malformed corpus, an unknown flag or an unwritable fixture directory ends the run.
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: Error) => {
+    console.error(`${getMessages(DEFAULT_LOCALE).cli.failed} ${error.message}`);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,95 @@
+import { PlanResult, PlanStep } from '../types';
+import { Locale } from '../i18n/locales';
+
+// Fewer steps is no decomposition; more is a plan nobody finishes in one sitting.
+export const STEP_COUNT_RANGE = { min: 3, max: 10 };
+
+// Words and punctuation that join two pieces of work: a title containing one does two things.
+const CONCERN_SEPARATOR = /,|;|，|；|、|\band\b|&|\+|和|与|以及|并且/i;
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/g;
+const LATIN = /[A-Za-z]/g;
+// Share of CJK among the letters for a step to count as Chinese; identifiers like `types.ts` stay Latin.
+const MIN_CJK_SHARE = 0.3;
+
+export interface CaseScore {
+  status: PlanResult['status'];
+  // Repair round trips needed for schema-valid output.
+  repairs: number;
+  steps: number;
+  stepCountOk: boolean;
+  // Shares of steps, 0-1.
+  atomicity: number;
+  risk: number;
+  // Null unless the plan was requested in Chinese.
+  language: number | null;
+  // 0-100; 0 for a plan that never became schema-valid.
+  score: number;
+}
+
+/** One concern per step: a title naming a single thing, and not sized "L" (which the prompt says to split). */
+export const isAtomic = (step: PlanStep): boolean =>
+  step.size !== 'L' && !CONCERN_SEPARATOR.test(step.title);
+
+export const isChinese = (text: string): boolean => {
+  const cjk = (text.match(CJK) || []).length;
+  const latin = (text.match(LATIN) || []).length;
+  return cjk > 0 && cjk / (cjk + latin) >= MIN_CJK_SHARE;
+};
+
+const share = (steps: PlanStep[], test: (step: PlanStep) => boolean) =>
+  steps.length === 0 ? 0 : steps.filter(test).length / steps.length;
+
+export const scorePlan = (result: PlanResult, lang: Locale): CaseScore => {
+  if (result.status === 'failed') {
+    return { status: 'failed', repairs: 0, steps: 0, stepCountOk: false, atomicity: 0, risk: 0, language: null, score: 0 };
+  }
+
+  const { steps } = result.plan;
+  const stepCountOk = steps.length >= STEP_COUNT_RANGE.min && steps.length <= STEP_COUNT_RANGE.max;
+  const atomicity = share(steps, isAtomic);
+  const risk = share(steps, step => step.risk.trim().length > 0);
+  const language = lang === 'zh'
+    ? share(steps, step => isChinese([step.title, step.promptStrategy, step.risk].join(' ')))
+    : null;
+  const metrics = [stepCountOk ? 1 : 0, atomicity, risk, ...(language === null ? [] : [language])];
+
+  return {
+    status: result.status,
+    repairs: result.status === 'repaired' ? result.attempts : 0,
+    steps: steps.length,
+    stepCountOk,
+    atomicity,
+    risk,
+    language,
+    score: Math.round((100 * metrics.reduce((sum, value) => sum + value, 0)) / metrics.length),
+  };
+};
+
+export interface VariantSummary {
+  cases: number;
+  valid: number;
+  firstTry: number;
+  repairs: number;
+  meanScore: number;
+  atomicity: number;
+  risk: number;
+  // Null when the corpus has no Chinese cases.
+  language: number | null;
+}
+
+const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length);
+
+export const summarize = (scores: CaseScore[]): VariantSummary => {
+  const valid = scores.filter(score => score.status !== 'failed');
+  const zh = valid.filter(score => score.language !== null);
+  return {
+    cases: scores.length,
+    valid: valid.length,
+    firstTry: scores.filter(score => score.status === 'success').length,
+    repairs: scores.reduce((sum, score) => sum + score.repairs, 0),
+    meanScore: Math.round(mean(scores.map(score => score.score))),
+    atomicity: mean(valid.map(score => score.atomicity)),
+    risk: mean(valid.map(score => score.risk)),
+    language: zh.length > 0 ? mean(zh.map(score => score.language as number)) : null,
+  };
+};
@@ -0,0 +1,20 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Node build of the `npm run eval` harness; like the CLI, `process.env` is read at run time.
+export default defineConfig(() => {
+  const root = path.resolve(__dirname, '..');
+  return {
+    root,
+    logLevel: 'warn' as const,
+    build: {
+      ssr: path.resolve(__dirname, 'run.ts'),
+      outDir: path.resolve(root, 'dist/eval'),
+      emptyOutDir: true,
+      target: 'node18',
+      rollupOptions: {
+        output: { entryFileNames: 'run.js' },
+      },
+    },
+  };
+});
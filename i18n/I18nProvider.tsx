@@ -0,0 +1,37 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Messages } from './messages/en';
+import { getMessages, Locale, LOCALES } from './locales';
+import { detectLocale, saveLocale } from './detectLocale';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  messages: Messages;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = LOCALES[locale].tag;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  };
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale, messages: getMessages(locale) }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+};
@@ -0,0 +1,42 @@
+import { DEFAULT_LOCALE, isLocale, Locale, LOCALE_IDS } from './locales';
+import { parseRoute } from '../routing/routes';
+
+const STORAGE_KEY = 'vibe-sop.locale';
+
+// "zh-Hans-CN" and "zh-TW" both map to `zh`; the first subtag decides.
+const fromLanguageTag = (tag: string): Locale | null => {
+  const primary = tag.toLowerCase().split('-')[0];
+  return LOCALE_IDS.find(locale => locale === primary) || null;
+};
+
+const loadLocale = (): Locale | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isLocale(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage unavailable: the browser language is used again on the next visit.
+  }
+};
+
+/** Picks the starting locale: the one in the URL (`#/zh/...`), then the saved choice, then the browser languages. */
+export const detectLocale = (): Locale => {
+  const fromUrl = parseRoute(window.location.hash)?.locale;
+  if (fromUrl) return fromUrl;
+
+  const saved = loadLocale();
+  if (saved) return saved;
+
+  for (const tag of navigator.languages || [navigator.language]) {
+    const match = tag && fromLanguageTag(tag);
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE;
+};
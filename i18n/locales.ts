@@ -0,0 +1,39 @@
+import en, { Messages } from './messages/en';
+import zh from './messages/zh';
+
+export interface LocaleDefinition {
+  // Name shown in the language switcher, in the language itself.
+  label: string;
+  // BCP 47 tag for `<html lang>` and date formatting.
+  tag: string;
+  // Appended to planner prompts so the model answers in this language.
+  promptInstruction: string;
+  messages: Messages;
+}
+
+// Adding a language: a catalog in ./messages, an entry here and a content/phases.<id>.json file.
+export const LOCALES = {
+  en: {
+    label: 'English',
+    tag: 'en-US',
+    promptInstruction: 'Output in English.',
+    messages: en,
+  },
+  zh: {
+    label: '简体中文',
+    tag: 'zh-CN',
+    promptInstruction: 'OUTPUT MUST BE IN CHINESE (Simplified). Translate titles, strategies, and risks to Chinese.',
+    messages: zh,
+  },
+} satisfies Record<string, LocaleDefinition>;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_IDS = Object.keys(LOCALES) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && LOCALE_IDS.includes(value as Locale);
+
+export const getMessages = (locale: Locale): Messages => LOCALES[locale].messages;
@@ -0,0 +1,552 @@
+import { InteractionOutcome, PlannerErrorKind, ReviewSeverity, SideEffectKind, StepGranularity, StepStatus } from '../../types';
+import { SearchField } from '../../services/sopSearch';
+import { LintRuleId, LintSeverity } from '../../services/promptLint';
+import { CheckSeverity, ReviewCheckId } from '../../services/codeReview';
+import { RuleChangeKind } from '../../services/houseRules';
+
+// The reference catalog: its shape defines the message keys every other locale must provide.
+const en = {
+  app: {
+    nav: 'Navigation',
+    standardOps: 'Standard Operating Procedure',
+    dos: 'Quick Dos',
+    donts: 'Quick Donts',
+    currentPhase: 'Current Phase',
+    chaosPrompt: 'The Chaos Prompt',
+    vibePrompt: 'The Vibe Prompt',
+    language: 'Language',
+  },
+  untranslated: 'Not translated yet, showing English',
+  search: {
+    open: 'Search the SOP',
+    placeholder: 'Search rules, examples, dos and don\'ts...',
+    noResults: 'Nothing matches.',
+    hint: '↑↓ move · Enter open · Esc close',
+    fields: {
+      title: 'Phase',
+      subtitle: 'Subtitle',
+      content: 'Overview',
+      standardOps: 'SOP step',
+      dos: 'Do',
+      donts: 'Don\'t',
+      positiveExample: 'Vibe prompt',
+      negativeExample: 'Chaos prompt',
+    } as Record<SearchField, string>,
+  },
+  chart: {
+    title: 'Entropy vs. Vibe Trajectory',
+    chaos: 'Typical Chaos',
+    vibe: 'Vibe SOP',
+    points: ['Start', 'Prompt 1', 'Prompt 2', 'Bug Fix', 'Rewrite', 'Final'],
+    sample: 'Sample data. Log a session in the Workshop to plot your own.',
+    sessionChaos: 'Chaos',
+    sessionVibe: 'Vibe',
+  },
+  planner: {
+    title: 'The Vibe Planner',
+    desc: 'Input your complex feature requirement below. The AI will decompose it into a safe, iteration-proof execution plan based on the SOP.',
+    placeholder: 'e.g., I need a real-time dashboard with websocket updates, auth, and complex role-based filtering...',
+    button: 'Decompose Task',
+    blueprint: 'Execution Blueprint',
+    templateUsed: 'Prompt template that produced this plan',
+    cancel: 'Cancel',
+    addStep: 'Add step',
+    newStep: { title: 'New step', promptStrategy: 'Describe exactly what to ask the AI in this step.', risk: 'What usually goes wrong here?' },
+    streaming: 'Receiving steps...',
+    planNotFound: 'This link points to a plan that is not saved in this browser. Plans are stored locally; ask for an export instead.',
+    cancelled: 'Incomplete plan: generation was cancelled. Steps below are all that arrived.',
+    interrupted: 'Incomplete plan: the stream failed halfway. Steps below are all that arrived.',
+    repaired: (n: number) => `The model's first answer did not match the plan schema and was repaired (${n} attempt${n > 1 ? 's' : ''}).`,
+    modes: { task: 'Decompose a task', legacy: 'Reverse engineer legacy code' },
+    legacyDesc: 'Phase 1, Brownfield: paste or upload an old file. The AI infers its interface, lists its side effects and hidden dependencies, and plans a refactor that keeps its behaviour.',
+    fileName: 'File name, e.g. src/legacy/cart.js',
+    sourcePlaceholder: 'Paste the legacy source here...',
+    upload: 'Upload file',
+    analyze: 'Analyze File',
+    tooLarge: (kb: number) => `Files over ${kb} KB do not fit one prompt. Split the file and analyze the parts.`,
+    refactorPlan: 'Safe Refactor Plan',
+  },
+  legacyAnalysis: {
+    title: 'Legacy Analysis',
+    inferredInterface: 'Inferred interface',
+    copy: 'Copy',
+    copied: 'Copied',
+    sideEffects: 'Side effects',
+    hiddenDependencies: 'Hidden dependencies',
+    none: 'None found.',
+    kinds: {
+      network: 'Network',
+      storage: 'Storage',
+      dom: 'DOM',
+      global_state: 'Global state',
+      io: 'I/O',
+      timer: 'Timer',
+      logging: 'Logging',
+      other: 'Other',
+    } as Record<SideEffectKind, string>,
+  },
+  errors: {
+    missing_key: 'No API key configured. Add one in Model Provider or your .env file.',
+    auth: 'The provider rejected your API key. Check that it is valid and has access to this model.',
+    quota: 'Rate limit or quota exceeded. Wait a moment and try again.',
+    timeout: 'The model took too long to respond. Try again or shorten the requirement.',
+    blocked: 'The request was blocked by the provider\'s safety filter. Rephrase the requirement.',
+    empty: 'The model returned an empty response. Try again.',
+    invalid_output: 'The model kept returning a malformed plan, even after repair attempts.',
+    network: 'Could not reach the provider. Check your connection and the Base URL.',
+    server: 'The provider had a server error. Try again shortly.',
+    cancelled: 'Generation was cancelled.',
+    unknown: 'Generation failed. Please check your API Key or try again.',
+  } as Record<PlannerErrorKind, string>,
+  provider: {
+    title: 'Model Provider',
+    provider: 'Provider',
+    model: 'Model',
+    baseUrl: 'Base URL',
+    apiKey: 'API Key',
+    apiKeyHint: 'Leave empty to use the key from .env (kept for this tab only)',
+  },
+  templates: {
+    title: 'Prompt Template',
+    template: 'Template',
+    builtIn: 'built-in',
+    body: 'Prompt',
+    builtInHint: 'Built-in templates are read-only. Edit the prompt and save it under a new name to tune your own.',
+    customHint: 'Each save is a new version. Saved plans record the template and version that produced them.',
+    missingTask: 'The prompt must contain {{task}}.',
+    unknownVariable: (name: string) => `Unknown variable {{${name}}}; it will be sent as written.`,
+    discard: 'Discard edits',
+    saveVersion: (version: number) => `Save as v${version}`,
+    newName: 'New template name',
+    saveAsNew: 'Save as new template',
+    remove: 'Delete template',
+    confirmDelete: 'Delete this template? It leaves the list, but its versions are kept so plans made with it can still be traced to them.',
+  },
+  constraints: {
+    title: 'Stack & Constraints',
+    none: 'none stated',
+    techStack: 'Language / framework',
+    techStackPlaceholder: 'e.g. TypeScript, React 19, Vite, Tailwind',
+    project: 'Project',
+    projects: {
+      unset: 'Not stated',
+      greenfield: 'Greenfield (new code)',
+      brownfield: 'Brownfield (existing code)',
+    },
+    granularity: 'Step granularity',
+    granularities: {
+      fine: 'Fine: one file or function per step',
+      balanced: 'Balanced',
+      coarse: 'Coarse: fewer, bigger steps',
+    } as Record<StepGranularity, string>,
+    existingModules: 'Existing modules to reuse',
+    existingModulesPlaceholder: 'One per line, e.g. services/api.ts',
+    hardConstraints: 'Hard constraints',
+    hardConstraintsPlaceholder: 'One per line, e.g. Keep the /api/orders response shape',
+    presets: ['No new dependencies', 'Keep the public API unchanged', 'No database schema changes'],
+    hint: 'Phase 1: define the tech stack explicitly. These inputs are saved with each plan, and step rewrites reuse the ones the plan was made with.',
+    clear: 'Clear',
+    count: (n: number) => `${n} constraint${n > 1 ? 's' : ''}`,
+  },
+  history: {
+    title: 'Plan History',
+    search: 'Search plans, inputs or step titles...',
+    empty: 'No saved plans yet. Every generated blueprint lands here.',
+    noMatch: 'No plans match your search.',
+    open: 'Open',
+    rename: 'Rename',
+    pin: 'Pin',
+    unpin: 'Unpin',
+    remove: 'Delete',
+    confirmDelete: 'Delete this plan permanently?',
+    steps: 'steps',
+  },
+  exportMenu: {
+    markdownHint: 'Checklist for a GitHub issue',
+    jsonHint: 'Raw PlannerResponse',
+    pack: 'Prompt Pack',
+    packHint: 'One ready-to-paste prompt file per step (.zip)',
+  },
+  // Text inside exported files (Markdown checklist, prompt pack).
+  exported: {
+    blueprint: 'Execution Blueprint',
+    task: 'Original requirement',
+    strategy: 'Prompt strategy',
+    risk: 'Risk',
+    notes: 'Notes',
+    skipped: 'skipped',
+    step: 'Step',
+    newChat: '(New Chat Session)',
+    payload: 'Context Payload',
+    typesPlaceholder: '// Paste types.ts here',
+    filePlaceholder: '// Paste the file you are editing here',
+    reminders: 'Reminders',
+    instruction: 'Task for this step',
+    watchOut: 'Watch out',
+    acceptance: 'Done when',
+    contextFiles: 'Context files',
+    dependsOn: 'Depends on',
+    size: 'Size',
+    snippet: 'snippet',
+    closingProtocol: 'Closing Protocol',
+    readmeSection: 'README section',
+    envVars: 'Environment variables',
+    variable: 'Variable',
+    description: 'Description',
+    required: 'Required',
+    example: 'Example',
+    yes: 'yes',
+    no: 'no',
+    noEnvVars: 'No environment variables.',
+    architecture: 'ARCHITECTURE.md delta',
+    cleanup: 'Cleanup checklist',
+    noLeftovers: 'Nothing left to clean up in the pasted code.',
+    houseRules: 'House Rules',
+  },
+  stepCard: {
+    strategy: 'Prompt Strategy',
+    risk: 'Risk',
+    title: 'Title',
+    copyPrompt: 'Copy prompt',
+    copied: 'Copied',
+    edit: 'Edit step',
+    save: 'Save',
+    cancel: 'Cancel',
+    remove: 'Delete step',
+    regenerate: 'Regenerate this step',
+    drag: 'Drag to reorder',
+    size: 'Size',
+    dependsOn: 'After',
+    acceptance: 'Done when',
+    contextFiles: 'Context Payload',
+    buildPayload: 'Open in Context Payload builder',
+  },
+  stepStatus: {
+    todo: 'To do',
+    in_progress: 'In progress',
+    done: 'Done',
+    failed: 'Failed / reset',
+    skipped: 'Skipped',
+  } as Record<StepStatus, string>,
+  stepProgress: {
+    notes: 'Notes: commit SHA, what went wrong...',
+    start: 'Start timer',
+    pause: 'Pause timer',
+    fiveMinutes: '5-minute rule: this step has been running for over 5 minutes. Stop, `git reset`, and restart with a fresh chat.',
+  },
+  progressBar: {
+    progress: 'Progress',
+    time: 'time spent',
+  },
+  dependencyGraph: {
+    title: 'Dependency Graph',
+  },
+  linter: {
+    title: 'The Prompt Linter',
+    desc: 'Paste a draft prompt to check it against the SOP before you send it. The check runs offline in your browser.',
+    placeholder: 'e.g., Fix the login page and also add a signup form with email verification...',
+    score: 'SOP score',
+    clean: 'No findings. This prompt follows the SOP.',
+    found: 'Found',
+    seePhase: 'See',
+    severity: {
+      error: 'Error',
+      warning: 'Warning',
+    } as Record<LintSeverity, string>,
+    rules: {
+      scope_creep: {
+        title: 'Scope creep',
+        advice: 'Several features in one ask. Split them and send one atomic change per prompt.',
+      },
+      missing_context: {
+        title: 'No Context Payload',
+        advice: 'No code is pasted. Include types.ts and the file being changed in fenced code blocks, not just their names.',
+      },
+      placeholder_request: {
+        title: 'Asks for placeholders',
+        advice: 'Placeholders, TODOs and omitted code are lazy code. Ask for the complete implementation.',
+      },
+      vague_verb: {
+        title: 'Vague instruction',
+        advice: 'Say what to change and what the result should be instead of "fix it" or "make it work".',
+      },
+      missing_constraints: {
+        title: 'No constraints',
+        advice: 'State what must stay unchanged: "modify X, keeping Y constant".',
+      },
+    } as Record<LintRuleId, { title: string; advice: string }>,
+    rewrite: 'Suggest a rewrite',
+    rewriting: 'Rewriting...',
+    rewriteTitle: 'Suggested rewrite',
+    changes: 'What changed',
+    useRewrite: 'Use as draft',
+    copy: 'Copy',
+    copied: 'Copied',
+  },
+  reviewer: {
+    title: 'The Review Assistant',
+    desc: 'Paste a unified diff (e.g. git diff output) or a code snippet. Offline checks flag the Phase 4 red flags on the added lines; the configured model can add a logic review.',
+    placeholder: 'Paste git diff output or a code snippet...',
+    diffInput: (lines: number, files: number) => `Unified diff: ${lines} added line${lines === 1 ? '' : 's'} in ${files} file${files === 1 ? '' : 's'}`,
+    snippetInput: (lines: number) => `Snippet: ${lines} line${lines === 1 ? '' : 's'}`,
+    staticChecks: 'Static checks',
+    clean: 'No red flags on the added lines.',
+    seePhase: 'See',
+    severity: {
+      error: 'Error',
+      warning: 'Warning',
+    } as Record<CheckSeverity, string>,
+    checks: {
+      hardcoded_secret: {
+        title: 'Hardcoded secret',
+        advice: 'Move it to an environment variable and rotate the key: it is in your history now.',
+      },
+      any_type: {
+        title: '`any` type',
+        advice: 'Ask for the real type. `any` switches the compiler off exactly where the AI guessed.',
+      },
+      ts_ignore: {
+        title: '`@ts-ignore`',
+        advice: 'A silenced type error is a bug waiting to happen. Make the AI fix the types instead.',
+      },
+      todo_later: {
+        title: 'TODO left behind',
+        advice: 'Do not commit "fix later". Finish it now or track it as a separate task.',
+      },
+      console_log: {
+        title: 'Debug logging',
+        advice: 'Remove console output before committing, or use the project logger.',
+      },
+      undocumented_env: {
+        title: 'Undocumented environment variable',
+        advice: 'The code reads a new variable that this diff does not add to .env.example or the README.',
+      },
+      dead_import: {
+        title: 'Unused import',
+        advice: 'Nothing else in the pasted code uses it. Remove it, or check the import is not a hallucinated API.',
+      },
+    } as Record<ReviewCheckId, { title: string; advice: string }>,
+    review: 'Ask for a logic review',
+    reviewing: 'Reviewing...',
+    logicReview: 'Logic review',
+    noFindings: 'The model found nothing else to flag.',
+    wholeChange: 'Whole change',
+    reviewSeverity: {
+      high: 'High',
+      medium: 'Medium',
+      low: 'Low',
+    } as Record<ReviewSeverity, string>,
+  },
+  closing: {
+    open: 'Close out',
+    title: 'Closing Protocol',
+    desc: 'Phase 5: every step is settled. Paste the final code or the feature diff to draft the README section, the environment variable table and the ARCHITECTURE.md delta, and to list what still needs cleaning up.',
+    placeholder: 'Paste git diff output or the final files (optional)...',
+    generate: 'Draft the docs',
+    generating: 'Drafting...',
+    leftovers: 'Cleanup checklist',
+    leftoversHint: 'Checked offline against the pasted code only.',
+    noCode: 'Paste code to check it for leftovers.',
+    noLeftovers: 'No console.log, TODOs or unused imports left.',
+    readme: 'README section',
+    envVars: 'Environment variables',
+    noEnvVars: 'The code reads no environment variables.',
+    architecture: 'ARCHITECTURE.md delta',
+    copy: 'Copy',
+    copied: 'Copied',
+    download: 'Download .md',
+  },
+  houseRules: {
+    title: 'House Rules',
+    desc: "Your team's Golden System Instruction: numbered rules, each tagged with the SOP phase it belongs to. The Planner follows them and cites them by number in each step's prompt strategy.",
+    enabled: 'Use in the Planner',
+    import: 'Import',
+    importFailed: 'The file is not a house rules export (JSON, or Markdown with numbered rules):',
+    confirmImport: (n: number) => `Replace the current rules with the ${n} imported ones? Save a version first to keep them.`,
+    copy: 'Copy',
+    copied: 'Copied',
+    empty: 'No house rules yet.',
+    starter: "Start from the SOP's Dos",
+    phase: 'Phase',
+    rule: (n: number) => `Rule #${n}`,
+    rulePlaceholder: 'e.g. One-shot compilation: the code must build without follow-up prompts',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    remove: 'Remove rule',
+    addRule: 'Add rule',
+    versions: 'Versions',
+    versionName: 'Version name, e.g. v2 after retro',
+    saveVersion: 'Save version',
+    noVersions: 'No saved versions. Save one before a big change so you can compare and roll back.',
+    ruleCount: (n: number) => `${n} rule${n === 1 ? '' : 's'}`,
+    restore: 'Restore as current rules',
+    confirmRestore: 'Replace the current rules with this version? Unsaved edits are lost.',
+    deleteVersion: 'Delete version',
+    confirmDelete: 'Delete this version?',
+    draft: 'draft',
+    compare: 'Compare',
+    compareFrom: 'Older version',
+    compareTo: 'Newer version',
+    pickVersion: 'Pick a version...',
+    current: 'Current rules',
+    noChanges: 'No differences.',
+    changes: {
+      added: 'added',
+      removed: 'removed',
+      edited: 'edited',
+      moved: 'moved',
+    } as Record<RuleChangeKind, string>,
+  },
+  payloadBuilder: {
+    title: 'Context Payload Builder',
+    desc: 'Assemble the opening message of a fresh chat: the files the AI needs, the SOP rules to restate, and the task. Drop files here, pick them, or paste snippets.',
+    files: 'Files',
+    pick: 'Choose files',
+    addSnippet: 'Add snippet',
+    drop: 'Drop files here',
+    fileName: 'File name, e.g. types.ts',
+    fileContent: 'Paste the file content...',
+    removeFile: 'Remove file',
+    tooLarge: 'Skipped files over 1 MB:',
+    rules: 'Rules to restate',
+    selected: (n: number) => `${n} selected`,
+    task: 'Task',
+    taskPlaceholder: 'What exactly should the AI do with these files?',
+    tokens: 'tokens',
+    budget: 'Context budget',
+    nearBudget: 'This payload fills most of the model\'s context window, leaving little room for the answer. Trim files to what the task touches.',
+    overBudget: 'This payload exceeds the model\'s context window. The model will silently drop part of it; split the task or trim the files.',
+    copy: 'Copy payload',
+    copied: 'Copied',
+  },
+  sessions: {
+    title: 'The Session Logger',
+    desc: 'Log every AI interaction of a coding session. The Entropy chart plots your real chaos and vibe, and the logger tells you when the chat should be restarted.',
+    session: 'Session',
+    newSession: 'New session',
+    defaultName: (date: string) => `Session ${date}`,
+    deleteSession: 'Delete session',
+    confirmDelete: 'Delete this session and its log?',
+    empty: 'Start a session, then log each prompt you send.',
+    prompt: 'What did you ask? (optional)',
+    outcome: 'Outcome',
+    outcomes: {
+      accepted: 'Accepted',
+      rejected: 'Rejected',
+      reset: 'git reset',
+    } as Record<InteractionOutcome, string>,
+    restarted: 'Sent in a fresh chat',
+    minutes: 'Minutes spent',
+    log: 'Log interaction',
+    noInteractions: 'No interactions logged yet.',
+    remove: 'Remove',
+    fresh: 'fresh chat',
+    restartFiveMinutes: (time: string) => `${time} spent without an accepted answer. Phase 0's 5-minute rule: STOP, git reset and start a fresh chat.`,
+    restartRejections: (n: number) => `${n} misses in a row. Phase 2: a confused chat does not get better. Close it and restart with a clean Context Payload.`,
+  },
+  // Terminal output of `npm run sop`.
+  cli: {
+    usage: `Usage: npm run sop -- <command> [options]
+
+Commands:
+  check [dir]              Check the working tree against "Commit BEFORE prompting"
+  plan "<task>"            Generate an execution blueprint; --out <file> saves it as JSON
+  next <plan.json> [dir]   Print the next step of a saved plan with its Context Payload
+
+Options:
+  --lang en|zh             Output and plan language
+  --provider <id>          gemini (default), openai, ollama or mock
+  --model <name>           Model name, defaults to the provider's
+  --base-url <url>         For openai and ollama
+  --rules <file>           House rules export (JSON or Markdown) for plan to follow
+  --template <id>          Built-in planner prompt template (default architect)
+  --stack "<stack>"        Language and framework the plan must use
+  --module <path>          Existing module for plan to reuse; repeat for more
+  --constraint "<rule>"    Hard constraint, e.g. "No new dependencies"; repeat for more
+  --granularity <level>    fine, balanced (default) or coarse steps
+  --project <kind>         greenfield or brownfield
+  --max-files <n>          Atomic unit limit for check (default 5)
+  --max-lines <n>          Atomic unit limit for check (default 300)`,
+    notRepo: (dir: string) => `${dir} is not inside a git working tree.`,
+    branch: 'Branch',
+    lastCommit: 'Last commit',
+    ago: (age: string) => `${age} ago`,
+    noCommits: 'No commits yet. Commit before pasting code into the AI.',
+    clean: 'Working tree clean. Safe to prompt.',
+    dirty: 'Uncommitted changes',
+    untracked: 'Untracked files',
+    lines: (n: number) => `${n} lines`,
+    commitFirst: 'Commit (or stash) before pasting code into the AI, so a bad answer is one `git reset` away.',
+    tooLarge: (files: number, lines: number, maxFiles: number, maxLines: number) =>
+      `The uncommitted diff (${files} files, ${lines} lines) is too big for one atomic unit (max ${maxFiles} files, ${maxLines} lines). Commit what works, or reset and split the prompt.`,
+    missingTask: 'Describe the task: npm run sop -- plan "<task>"',
+    missingPlan: 'Name a plan file: npm run sop -- next <plan.json>',
+    invalidPlan: (file: string) => `${file} is not a valid plan export:`,
+    invalidRules: (file: string) => `${file} is not a valid house rules export:`,
+    invalidChoice: (option: string, value: string, choices: string[]) => `Invalid ${option} "${value}". Use one of: ${choices.join(', ')}.`,
+    unknownTemplate: (id: string, ids: string[]) => `Unknown template "${id}". Built-in templates: ${ids.join(', ')}.`,
+    saved: (file: string) => `Saved to ${file}`,
+    saveFailed: (file: string) => `Could not write ${file}:`,
+    allSettled: 'Every step is done or skipped.',
+    blocked: 'The remaining steps wait for dependencies that are not done.',
+    nextStep: (n: number, total: number, title: string) => `Next: step ${n}/${total}, ${title}`,
+    missingFile: (file: string) => `Not found in the working tree, left empty: ${file}`,
+    outsideTree: (file: string) => `Outside the working tree, left empty: ${file}`,
+    unknownCommand: (command: string) => `Unknown command: ${command}`,
+    failed: 'Unexpected error:',
+  },
+  evaluation: {
+    usage: `Usage: npm run eval -- <command> [options]
+
+Replays recorded model responses through the planner and scores the plans. Fixtures live in
+eval/fixtures/<variant>/, one file per case in eval/corpus.json.
+
+Commands:
+  run <variant>            Score one variant
+  compare <a> <b>          Score two variants side by side; exits 1 if <b> scores lower
+  record <variant>         Call a real model for every case and save its responses as <variant>
+
+Options:
+  --lang en|zh             Report language
+  --provider <id>          record: gemini (default), openai, ollama or mock
+  --model <name>           record: model name, defaults to the provider's
+  --base-url <url>         record: for openai and ollama
+  --template <id>          record: built-in planner prompt template (default architect)`,
+    missingVariant: 'Name the fixture variant(s): npm run eval -- run <variant>, or compare <a> <b>',
+    unknownVariant: (variant: string, dir: string) => `No fixtures named "${variant}" in ${dir}. Record them with: npm run eval -- record ${variant}`,
+    variant: (variant: string, n: number) => `Variant ${variant}: ${n} recorded cases`,
+    comparing: (a: string, b: string, n: number) => `Comparing ${a} with ${b} on ${n} cases recorded for both`,
+    columns: {
+      case: 'Case',
+      status: 'Status',
+      steps: 'Steps',
+      atomic: 'Atomic',
+      risk: 'Risk',
+      language: 'Chinese',
+      score: 'Score',
+    },
+    status: {
+      success: 'valid',
+      repaired: 'repaired',
+      failed: 'failed',
+      missing: 'not recorded',
+    },
+    delta: 'Δ',
+    meanScore: 'Mean score',
+    valid: 'Schema-valid',
+    firstTry: 'Valid first try',
+    repairs: 'Repair round trips',
+    atomicity: 'Atomic steps',
+    risk: 'Steps with a risk',
+    language: 'Steps in Chinese',
+    missing: (ids: string[]) => `Not recorded: ${ids.join(', ')}`,
+    regression: (a: string, b: string) => `Regression: ${b} scores lower than ${a}.`,
+    recorded: (id: string, status: string) => `Recorded ${id} (${status})`,
+    recordFailed: (id: string, reason: string) => `No response for ${id}, not saved${reason ? `: ${reason}` : '.'}`,
+    saved: (n: number, dir: string) => `Saved ${n} fixtures to ${dir}`,
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
@@ -0,0 +1,543 @@
+import { Messages } from './en';
+
+const zh: Messages = {
+  app: {
+    nav: '导航',
+    standardOps: '标准作业程序 (SOP)',
+    dos: '做 (Dos)',
+    donts: '别做 (Donts)',
+    currentPhase: '当前阶段',
+    chaosPrompt: '混乱提示词',
+    vibePrompt: 'Vibe 提示词',
+    language: '语言',
+  },
+  untranslated: '尚未翻译，显示英文原文',
+  search: {
+    open: '搜索 SOP',
+    placeholder: '搜索规则、示例、做与别做...',
+    noResults: '没有匹配结果。',
+    hint: '↑↓ 选择 · Enter 打开 · Esc 关闭',
+    fields: {
+      title: '阶段',
+      subtitle: '副标题',
+      content: '概述',
+      standardOps: 'SOP 步骤',
+      dos: '做',
+      donts: '别做',
+      positiveExample: 'Vibe 提示词',
+      negativeExample: '混乱提示词',
+    },
+  },
+  chart: {
+    title: '熵 vs. Vibe 轨迹',
+    chaos: '典型混乱',
+    vibe: 'Vibe SOP',
+    points: ['开始', '提示 1', '提示 2', '修 Bug', '重写', '完成'],
+    sample: '示例数据。在工坊中记录会话后即可看到你自己的曲线。',
+    sessionChaos: '混乱',
+    sessionVibe: 'Vibe',
+  },
+  planner: {
+    title: 'Vibe 规划器',
+    desc: '在下方输入复杂的开发需求。AI 将基于 SOP 将其拆解为安全的、防幻觉的执行计划。',
+    placeholder: '例如：我需要一个包含 Websocket 实时更新、身份验证和基于角色的复杂过滤功能的仪表盘...',
+    button: '拆解任务',
+    blueprint: '执行蓝图',
+    templateUsed: '生成这个计划的提示词模板',
+    cancel: '取消',
+    addStep: '添加步骤',
+    newStep: { title: '新步骤', promptStrategy: '写清楚这一步要让 AI 做什么。', risk: '这一步通常会出什么问题？' },
+    streaming: '正在接收步骤...',
+    planNotFound: '该链接指向的计划没有保存在这个浏览器中。计划只存储在本地，请让对方导出后发给你。',
+    cancelled: '计划不完整：生成已取消。以下仅为已收到的步骤。',
+    interrupted: '计划不完整：数据流中途失败。以下仅为已收到的步骤。',
+    repaired: (n: number) => `模型的首次输出不符合计划结构，已自动修复（${n} 次尝试）。`,
+    modes: { task: '拆解任务', legacy: '逆向分析遗留代码' },
+    legacyDesc: '阶段 1，遗留项目：粘贴或上传一个旧文件。AI 会推断它的接口，列出副作用和隐藏依赖，并规划一个不改变行为的重构方案。',
+    fileName: '文件名，例如 src/legacy/cart.js',
+    sourcePlaceholder: '在这里粘贴遗留代码...',
+    upload: '上传文件',
+    analyze: '分析文件',
+    tooLarge: (kb: number) => `超过 ${kb} KB 的文件放不进一次提示词。请先拆分文件，再分别分析。`,
+    refactorPlan: '安全重构计划',
+  },
+  legacyAnalysis: {
+    title: '遗留代码分析',
+    inferredInterface: '推断出的接口',
+    copy: '复制',
+    copied: '已复制',
+    sideEffects: '副作用',
+    hiddenDependencies: '隐藏依赖',
+    none: '未发现。',
+    kinds: {
+      network: '网络',
+      storage: '存储',
+      dom: 'DOM',
+      global_state: '全局状态',
+      io: 'I/O',
+      timer: '定时器',
+      logging: '日志',
+      other: '其他',
+    },
+  },
+  errors: {
+    missing_key: '未配置 API Key。请在“模型提供方”或 .env 文件中添加。',
+    auth: '提供方拒绝了你的 API Key。请确认密钥有效且有权访问该模型。',
+    quota: '触发限流或配额已用尽。请稍后再试。',
+    timeout: '模型响应超时。请重试或缩短需求描述。',
+    blocked: '请求被提供方的安全过滤器拦截。请换一种表述。',
+    empty: '模型返回了空响应。请重试。',
+    invalid_output: '模型多次返回格式错误的计划，自动修复也未成功。',
+    network: '无法连接到提供方。请检查网络和接口地址。',
+    server: '提供方服务器出错。请稍后重试。',
+    cancelled: '生成已取消。',
+    unknown: '生成失败。请检查 API Key 或重试。',
+  },
+  provider: {
+    title: '模型提供方',
+    provider: '提供方',
+    model: '模型',
+    baseUrl: '接口地址',
+    apiKey: 'API Key',
+    apiKeyHint: '留空则使用 .env 中的密钥（仅在当前标签页有效）',
+  },
+  templates: {
+    title: '提示词模板',
+    template: '模板',
+    builtIn: '内置',
+    body: '提示词',
+    builtInHint: '内置模板为只读。修改提示词后以新名称保存，即可调整出自己的模板。',
+    customHint: '每次保存都会生成一个新版本。保存的计划会记录生成它的模板和版本。',
+    missingTask: '提示词中必须包含 {{task}}。',
+    unknownVariable: (name: string) => `未知变量 {{${name}}}，将按原样发送。`,
+    discard: '放弃修改',
+    saveVersion: (version: number) => `保存为 v${version}`,
+    newName: '新模板名称',
+    saveAsNew: '另存为新模板',
+    remove: '删除模板',
+    confirmDelete: '删除这个模板？它会从列表中移除，但各个版本仍会保留，用它生成的计划依然可以追溯到对应版本。',
+  },
+  constraints: {
+    title: '技术栈与约束',
+    none: '未填写',
+    techStack: '语言 / 框架',
+    techStackPlaceholder: '例如：TypeScript、React 19、Vite、Tailwind',
+    project: '项目类型',
+    projects: {
+      unset: '未说明',
+      greenfield: '新项目（Greenfield）',
+      brownfield: '已有代码（Brownfield）',
+    },
+    granularity: '步骤粒度',
+    granularities: {
+      fine: '细：每步一个文件或函数',
+      balanced: '适中',
+      coarse: '粗：步骤更少、更大',
+    },
+    existingModules: '需要复用的已有模块',
+    existingModulesPlaceholder: '每行一个，例如 services/api.ts',
+    hardConstraints: '硬性约束',
+    hardConstraintsPlaceholder: '每行一个，例如：保持 /api/orders 的返回结构不变',
+    presets: ['不引入新依赖', '保持公共 API 不变', '不修改数据库结构'],
+    hint: '第一阶段：明确定义技术栈。这些输入会随每个计划保存，重新生成步骤时沿用该计划当时的约束。',
+    clear: '清空',
+    count: (n: number) => `${n} 条约束`,
+  },
+  history: {
+    title: '历史计划',
+    search: '搜索计划、需求或步骤标题...',
+    empty: '还没有保存的计划。每次生成的蓝图都会保存在这里。',
+    noMatch: '没有匹配的计划。',
+    open: '打开',
+    rename: '重命名',
+    pin: '置顶',
+    unpin: '取消置顶',
+    remove: '删除',
+    confirmDelete: '永久删除这个计划？',
+    steps: '步',
+  },
+  exportMenu: {
+    markdownHint: '可粘贴到 GitHub Issue 的清单',
+    jsonHint: '原始 PlannerResponse',
+    pack: '提示词包',
+    packHint: '每个步骤一个可直接粘贴的提示词文件（.zip）',
+  },
+  exported: {
+    blueprint: '执行蓝图',
+    task: '原始需求',
+    strategy: '提示词策略',
+    risk: '潜在风险',
+    notes: '备注',
+    skipped: '已跳过',
+    step: '步骤',
+    newChat: '（新会话）',
+    payload: '上下文载荷',
+    typesPlaceholder: '// 在此粘贴 types.ts',
+    filePlaceholder: '// 在此粘贴你正在修改的文件',
+    reminders: '提醒',
+    instruction: '本步任务',
+    watchOut: '注意',
+    acceptance: '完成标准',
+    contextFiles: '上下文文件',
+    dependsOn: '依赖步骤',
+    size: '规模',
+    snippet: '片段',
+    closingProtocol: '收尾协议',
+    readmeSection: 'README 章节',
+    envVars: '环境变量',
+    variable: '变量',
+    description: '说明',
+    required: '必填',
+    example: '示例',
+    yes: '是',
+    no: '否',
+    noEnvVars: '没有环境变量。',
+    architecture: 'ARCHITECTURE.md 变更',
+    cleanup: '清理清单',
+    noLeftovers: '粘贴的代码中没有需要清理的内容。',
+    houseRules: '团队规则',
+  },
+  stepCard: {
+    strategy: '提示词策略',
+    risk: '潜在风险',
+    title: '标题',
+    copyPrompt: '复制提示词',
+    copied: '已复制',
+    edit: '编辑步骤',
+    save: '保存',
+    cancel: '取消',
+    remove: '删除步骤',
+    regenerate: '重新生成此步骤',
+    drag: '拖动以排序',
+    size: '规模',
+    dependsOn: '依赖',
+    acceptance: '完成标准',
+    contextFiles: '上下文载荷',
+    buildPayload: '在上下文载荷生成器中打开',
+  },
+  stepStatus: {
+    todo: '待办',
+    in_progress: '进行中',
+    done: '完成',
+    failed: '失败 / 已回滚',
+    skipped: '跳过',
+  },
+  stepProgress: {
+    notes: '备注：提交 SHA、出了什么问题……',
+    start: '开始计时',
+    pause: '暂停计时',
+    fiveMinutes: '5 分钟法则：这一步已超过 5 分钟。停下来，`git reset`，然后开一个新对话重来。',
+  },
+  progressBar: {
+    progress: '进度',
+    time: '已用时',
+  },
+  dependencyGraph: {
+    title: '依赖关系图',
+  },
+  linter: {
+    title: '提示词检查器',
+    desc: '发送之前，把草稿提示词粘贴到这里，按 SOP 检查一遍。检查完全在浏览器本地离线进行。',
+    placeholder: '例如：修一下登录页面，同时加一个带邮箱验证的注册表单……',
+    score: 'SOP 得分',
+    clean: '没有发现问题，这个提示词符合 SOP。',
+    found: '发现',
+    seePhase: '参见',
+    severity: {
+      error: '错误',
+      warning: '警告',
+    },
+    rules: {
+      scope_creep: {
+        title: '范围蔓延',
+        advice: '一次请求包含多个功能。请拆开，每个提示词只做一个原子改动。',
+      },
+      missing_context: {
+        title: '缺少上下文载荷',
+        advice: '没有粘贴代码。请用代码块附上 types.ts 和要修改的文件，而不只是写文件名。',
+      },
+      placeholder_request: {
+        title: '要求占位符',
+        advice: '占位符、TODO 和省略的代码都是偷懒代码。请要求完整实现。',
+      },
+      vague_verb: {
+        title: '指令含糊',
+        advice: '说明要改什么、期望结果是什么，而不是“修一下”或“让它能跑”。',
+      },
+      missing_constraints: {
+        title: '缺少约束',
+        advice: '写明哪些内容必须保持不变：“修改 X，保持 Y 不变”。',
+      },
+    },
+    rewrite: '建议改写',
+    rewriting: '改写中……',
+    rewriteTitle: '建议的改写',
+    changes: '改动说明',
+    useRewrite: '用作草稿',
+    copy: '复制',
+    copied: '已复制',
+  },
+  reviewer: {
+    title: '审查助手',
+    desc: '粘贴统一格式的 diff（例如 git diff 的输出）或一段代码。离线检查会标出新增行中阶段 4 列出的危险信号；配置好的模型还可以补充逻辑审查。',
+    placeholder: '粘贴 git diff 输出或代码片段...',
+    diffInput: (lines: number, files: number) => `Diff：${files} 个文件中新增 ${lines} 行`,
+    snippetInput: (lines: number) => `代码片段：${lines} 行`,
+    staticChecks: '静态检查',
+    clean: '新增的代码中没有危险信号。',
+    seePhase: '参见',
+    severity: {
+      error: '错误',
+      warning: '警告',
+    },
+    checks: {
+      hardcoded_secret: {
+        title: '硬编码的密钥',
+        advice: '改为环境变量，并轮换这个密钥：它已经进入了你的历史记录。',
+      },
+      any_type: {
+        title: '`any` 类型',
+        advice: '要求给出真实类型。`any` 恰好在 AI 猜测的地方关掉了编译器检查。',
+      },
+      ts_ignore: {
+        title: '`@ts-ignore`',
+        advice: '被压制的类型错误迟早会变成 Bug。让 AI 修正类型。',
+      },
+      todo_later: {
+        title: '遗留的 TODO',
+        advice: '不要提交“以后再修”。现在完成，或者作为单独的任务记录下来。',
+      },
+      console_log: {
+        title: '调试日志',
+        advice: '提交前删除 console 输出，或改用项目的日志工具。',
+      },
+      undocumented_env: {
+        title: '未记录的环境变量',
+        advice: '代码读取了一个新变量，但这个 diff 没有把它加入 .env.example 或 README。',
+      },
+      dead_import: {
+        title: '未使用的导入',
+        advice: '粘贴的代码中没有其他地方用到它。删除它，或者确认这不是 AI 编造的 API。',
+      },
+    },
+    review: '请求逻辑审查',
+    reviewing: '审查中...',
+    logicReview: '逻辑审查',
+    noFindings: '模型没有发现其他问题。',
+    wholeChange: '整个变更',
+    reviewSeverity: {
+      high: '高',
+      medium: '中',
+      low: '低',
+    },
+  },
+  closing: {
+    open: '收尾',
+    title: '收尾协议',
+    desc: '阶段 5：所有步骤都已完成或跳过。粘贴最终代码或功能的 diff，生成 README 章节、环境变量表和 ARCHITECTURE.md 变更的草稿，并列出仍需清理的内容。',
+    placeholder: '粘贴 git diff 输出或最终文件（可选）...',
+    generate: '生成文档草稿',
+    generating: '生成中...',
+    leftovers: '清理清单',
+    leftoversHint: '仅根据粘贴的代码离线检查。',
+    noCode: '粘贴代码后即可检查遗留内容。',
+    noLeftovers: '没有遗留的 console.log、TODO 或未使用的导入。',
+    readme: 'README 章节',
+    envVars: '环境变量',
+    noEnvVars: '代码没有读取任何环境变量。',
+    architecture: 'ARCHITECTURE.md 变更',
+    copy: '复制',
+    copied: '已复制',
+    download: '下载 .md',
+  },
+  houseRules: {
+    title: '团队规则',
+    desc: '团队的黄金系统指令：带编号的规则，每条标明所属的 SOP 阶段。规划器会遵守这些规则，并在每一步的提示策略中按编号引用。',
+    enabled: '在规划器中使用',
+    import: '导入',
+    importFailed: '该文件不是团队规则导出文件（JSON，或带编号规则的 Markdown）：',
+    confirmImport: (n: number) => `用导入的 ${n} 条规则替换当前规则？如需保留当前规则，请先保存一个版本。`,
+    copy: '复制',
+    copied: '已复制',
+    empty: '还没有团队规则。',
+    starter: '从 SOP 的「应该做」开始',
+    phase: '阶段',
+    rule: (n: number) => `规则 #${n}`,
+    rulePlaceholder: '例如：一次编译通过，代码无需追加提示即可构建',
+    moveUp: '上移',
+    moveDown: '下移',
+    remove: '删除规则',
+    addRule: '添加规则',
+    versions: '版本',
+    versionName: '版本名称，例如：复盘后 v2',
+    saveVersion: '保存版本',
+    noVersions: '还没有保存的版本。大改之前先保存一个版本，便于对比和回滚。',
+    ruleCount: (n: number) => `${n} 条规则`,
+    restore: '恢复为当前规则',
+    confirmRestore: '用这个版本替换当前规则？未保存的修改将丢失。',
+    deleteVersion: '删除版本',
+    confirmDelete: '删除这个版本？',
+    draft: '草稿',
+    compare: '对比',
+    compareFrom: '旧版本',
+    compareTo: '新版本',
+    pickVersion: '选择版本...',
+    current: '当前规则',
+    noChanges: '没有差异。',
+    changes: {
+      added: '新增',
+      removed: '删除',
+      edited: '修改',
+      moved: '移动',
+    },
+  },
+  payloadBuilder: {
+    title: '上下文载荷生成器',
+    desc: '组装新对话的第一条消息：AI 需要的文件、要重申的 SOP 规则，以及任务本身。可以把文件拖到这里、选择文件，或直接粘贴代码片段。',
+    files: '文件',
+    pick: '选择文件',
+    addSnippet: '添加片段',
+    drop: '把文件拖到这里',
+    fileName: '文件名，例如 types.ts',
+    fileContent: '粘贴文件内容……',
+    removeFile: '移除文件',
+    tooLarge: '已跳过超过 1 MB 的文件：',
+    rules: '要重申的规则',
+    selected: (n: number) => `已选 ${n} 条`,
+    task: '任务',
+    taskPlaceholder: 'AI 具体要对这些文件做什么？',
+    tokens: 'tokens',
+    budget: '上下文预算',
+    nearBudget: '这个载荷占用了模型大部分上下文窗口，留给回答的空间很少。请只保留任务涉及的文件。',
+    overBudget: '这个载荷超出了模型的上下文窗口，模型会悄悄丢掉一部分内容。请拆分任务或精简文件。',
+    copy: '复制载荷',
+    copied: '已复制',
+  },
+  sessions: {
+    title: '会话记录器',
+    desc: '记录一次编码会话中的每一次 AI 交互。熵图会绘制你真实的混乱度和 Vibe 值，记录器也会提示何时应该重开对话。',
+    session: '会话',
+    newSession: '新建会话',
+    defaultName: (date: string) => `会话 ${date}`,
+    deleteSession: '删除会话',
+    confirmDelete: '确定删除这个会话及其记录吗？',
+    empty: '先新建一个会话，然后记录你发送的每个提示词。',
+    prompt: '你问了什么？（可选）',
+    outcome: '结果',
+    outcomes: {
+      accepted: '采纳',
+      rejected: '拒绝',
+      reset: 'git reset',
+    },
+    restarted: '在新对话中发送',
+    minutes: '耗时（分钟）',
+    log: '记录交互',
+    noInteractions: '还没有记录任何交互。',
+    remove: '移除',
+    fresh: '新对话',
+    restartFiveMinutes: (time: string) => `已经花了 ${time} 仍没有可采纳的回答。阶段 0 的 5 分钟法则：停下来，git reset，开一个新对话。`,
+    restartRejections: (n: number) => `已连续 ${n} 次失败。阶段 2：混乱的对话不会自己变好。关闭它，用干净的上下文载荷重新开始。`,
+  },
+  cli: {
+    usage: `用法：npm run sop -- <命令> [选项]
+
+命令：
+  check [目录]              按“提示之前先 Commit”检查工作区
+  plan "<任务>"             生成执行蓝图；--out <文件> 保存为 JSON
+  next <plan.json> [目录]   打印已保存计划的下一步及其上下文载荷
+
+选项：
+  --lang en|zh             输出和计划的语言
+  --provider <id>          gemini（默认）、openai、ollama 或 mock
+  --model <名称>           模型名称，默认使用服务商的默认模型
+  --base-url <url>         用于 openai 和 ollama
+  --rules <文件>           plan 需要遵守的团队规则导出文件（JSON 或 Markdown）
+  --template <id>          plan 使用的内置提示词模板（默认 architect）
+  --stack "<技术栈>"        plan 必须使用的语言和框架
+  --module <路径>          plan 需要复用的已有模块；可重复
+  --constraint "<约束>"    硬性约束，例如“不引入新依赖”；可重复
+  --granularity <粒度>     步骤粒度：fine、balanced（默认）或 coarse
+  --project <类型>         greenfield 或 brownfield
+  --max-files <n>          check 的原子单元上限（默认 5）
+  --max-lines <n>          check 的原子单元上限（默认 300）`,
+    notRepo: (dir: string) => `${dir} 不在 git 工作区内。`,
+    branch: '分支',
+    lastCommit: '上次提交',
+    ago: (age: string) => `${age}前`,
+    noCommits: '还没有任何提交。把代码粘贴给 AI 之前先 Commit。',
+    clean: '工作区干净，可以开始提示。',
+    dirty: '未提交的改动',
+    untracked: '未跟踪的文件',
+    lines: (n: number) => `${n} 行`,
+    commitFirst: '把代码粘贴给 AI 之前先 Commit（或 stash），这样糟糕的回答只需一次 `git reset`。',
+    tooLarge: (files: number, lines: number, maxFiles: number, maxLines: number) =>
+      `未提交的改动（${files} 个文件，${lines} 行）超出了一个原子单元（最多 ${maxFiles} 个文件、${maxLines} 行）。先提交可用的部分，或者 reset 后拆分提示词。`,
+    missingTask: '请描述任务：npm run sop -- plan "<任务>"',
+    missingPlan: '请指定计划文件：npm run sop -- next <plan.json>',
+    invalidPlan: (file: string) => `${file} 不是有效的计划导出文件：`,
+    invalidRules: (file: string) => `${file} 不是有效的团队规则导出文件：`,
+    invalidChoice: (option: string, value: string, choices: string[]) => `${option} 的值「${value}」无效。可选：${choices.join('、')}。`,
+    unknownTemplate: (id: string, ids: string[]) => `未知模板「${id}」。内置模板：${ids.join('、')}。`,
+    saved: (file: string) => `已保存到 ${file}`,
+    saveFailed: (file: string) => `无法写入 ${file}：`,
+    allSettled: '所有步骤都已完成或跳过。',
+    blocked: '剩余步骤都在等待尚未完成的依赖。',
+    nextStep: (n: number, total: number, title: string) => `下一步：第 ${n}/${total} 步，${title}`,
+    missingFile: (file: string) => `工作区中找不到，已留空：${file}`,
+    outsideTree: (file: string) => `位于工作区之外，已留空：${file}`,
+    unknownCommand: (command: string) => `未知命令：${command}`,
+    failed: '意外错误：',
+  },
+  evaluation: {
+    usage: `用法：npm run eval -- <命令> [选项]
+
+把录制好的模型回复重新交给规划器，并为生成的计划打分。录制文件位于
+eval/fixtures/<变体>/，eval/corpus.json 中的每个用例一个文件。
+
+命令：
+  run <变体>               为一个变体打分
+  compare <a> <b>          并排比较两个变体；<b> 得分更低时退出码为 1
+  record <变体>            为每个用例调用真实模型，并把回复保存为 <变体>
+
+选项：
+  --lang en|zh             报告语言
+  --provider <id>          record：gemini（默认）、openai、ollama 或 mock
+  --model <名称>           record：模型名称，默认使用服务商的默认模型
+  --base-url <url>         record：用于 openai 和 ollama
+  --template <id>          record：使用的内置提示词模板（默认 architect）`,
+    missingVariant: '请指定录制变体：npm run eval -- run <变体>，或 compare <a> <b>',
+    unknownVariant: (variant: string, dir: string) => `${dir} 中没有名为「${variant}」的录制。先录制：npm run eval -- record ${variant}`,
+    variant: (variant: string, n: number) => `变体 ${variant}：已录制 ${n} 个用例`,
+    comparing: (a: string, b: string, n: number) => `比较 ${a} 与 ${b}，共 ${n} 个两者都已录制的用例`,
+    columns: {
+      case: '用例',
+      status: '状态',
+      steps: '步骤',
+      atomic: '原子',
+      risk: '风险',
+      language: '中文',
+      score: '得分',
+    },
+    status: {
+      success: '有效',
+      repaired: '已修复',
+      failed: '失败',
+      missing: '未录制',
+    },
+    delta: 'Δ',
+    meanScore: '平均得分',
+    valid: '符合结构',
+    firstTry: '首次即有效',
+    repairs: '修复往返次数',
+    atomicity: '原子步骤',
+    risk: '写明风险的步骤',
+    language: '中文步骤',
+    missing: (ids: string[]) => `未录制：${ids.join('、')}`,
+    regression: (a: string, b: string) => `退步：${b} 的得分低于 ${a}。`,
+    recorded: (id: string, status: string) => `已录制 ${id}（${status}）`,
+    recordFailed: (id: string, reason: string) => `${id} 没有收到回复，未保存${reason ? `：${reason}` : '。'}`,
+    saved: (n: number, dir: string) => `已保存 ${n} 个录制到 ${dir}`,
+  },
+};
+
+export default zh;
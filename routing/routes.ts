@@ -0,0 +1,46 @@
+import { PhaseId } from '../types';
+import { isLocale, Locale } from '../i18n/locales';
+
+// Hash routes, so deep links work on any static host without server rewrites:
+//   #/en/context          a phase
+//   #/zh/plans/<id>       a saved plan, opened in the Workshop
+export type Route =
+  | { name: 'phase'; locale: Locale; phase: PhaseId }
+  | { name: 'plan'; locale: Locale; planId: string };
+
+const PLANS_SEGMENT = 'plans';
+
+const isPhaseId = (value: string): value is PhaseId => (Object.values(PhaseId) as string[]).includes(value);
+
+// A truncated or hand-edited link can carry a broken escape, which `decodeURIComponent` throws on.
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns null for anything that is not a well-formed route, including an empty hash
+ * and a plan id with a malformed escape such as `#/en/plans/%E0%A4%A`.
+ */
+export const parseRoute = (hash: string): Route | null => {
+  const [locale, section, id, ...rest] = hash.replace(/^#\/?/, '').split('/').filter(Boolean);
+  if (!isLocale(locale) || rest.length > 0) return null;
+
+  if (section === undefined) return { name: 'phase', locale, phase: PhaseId.MANIFESTO };
+  if (section === PLANS_SEGMENT) {
+    const planId = id ? decodeSegment(id) : null;
+    return planId ? { name: 'plan', locale, planId } : null;
+  }
+  return isPhaseId(section) && id === undefined ? { name: 'phase', locale, phase: section } : null;
+};
+
+export const formatRoute = (route: Route): string =>
+  route.name === 'plan'
+    ? `#/${route.locale}/${PLANS_SEGMENT}/${encodeURIComponent(route.planId)}`
+    : `#/${route.locale}/${route.phase}`;
+
+// Saved plans open in the Workshop, so a plan route highlights that phase.
+export const routePhase = (route: Route): PhaseId => route.name === 'plan' ? PhaseId.TOOLKIT : route.phase;
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PhaseId } from '../types';
+import { Locale } from '../i18n/locales';
+import { formatRoute, parseRoute, Route } from './routes';
+
+interface NavigateOptions {
+  // Rewrite the current history entry instead of adding one (redirects, state the user didn't ask to revisit).
+  replace?: boolean;
+}
+
+/** The current hash route, kept in sync with back/forward. Malformed hashes fall back to Phase 0. */
+export const useRoute = (fallbackLocale: Locale): [Route, (route: Route, options?: NavigateOptions) => void] => {
+  const read = useCallback(
+    (): Route => parseRoute(window.location.hash) || { name: 'phase', locale: fallbackLocale, phase: PhaseId.MANIFESTO },
+    [fallbackLocale]
+  );
+  const [route, setRoute] = useState<Route>(read);
+
+  useEffect(() => {
+    const handleChange = () => setRoute(read());
+    window.addEventListener('hashchange', handleChange);
+    return () => window.removeEventListener('hashchange', handleChange);
+  }, [read]);
+
+  const navigate = useCallback((next: Route, { replace = false }: NavigateOptions = {}) => {
+    const hash = formatRoute(next);
+    if (window.location.hash === hash) return;
+    if (replace) {
+      // replaceState does not fire `hashchange`, so update the state directly.
+      window.history.replaceState(window.history.state, '', hash);
+      setRoute(next);
+    } else {
+      window.location.hash = hash;
+    }
+  }, []);
+
+  return [route, navigate];
+};
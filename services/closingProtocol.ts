@@ -0,0 +1,70 @@
+import { ClosingDocs, EnvVarDoc } from "../types";
+import { CheckFinding, findDeadImports, formatLocation, ReviewCheckId, ReviewLine, runReviewChecks } from "./codeReview";
+import { getMessages, Locale } from "../i18n/locales";
+
+// Phase 5 polish: what must not survive into the final commit.
+const LEFTOVER_CHECKS: ReviewCheckId[] = ['console_log', 'todo_later'];
+
+/** Debug logging, TODOs and unused imports in the added lines, in file order. */
+export const findLeftovers = (lines: ReviewLine[]): CheckFinding[] =>
+  [...runReviewChecks(lines).filter(finding => LEFTOVER_CHECKS.includes(finding.check)), ...findDeadImports(lines)]
+    .sort((a, b) => (a.file || '').localeCompare(b.file || '') || a.line - b.line);
+
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+
+/** GitHub-flavoured table for the README's configuration section; empty when there are no variables. */
+export const envTableMarkdown = (envVars: EnvVarDoc[], lang: Locale): string => {
+  if (envVars.length === 0) return '';
+  const l = getMessages(lang).exported;
+  return [
+    `| ${l.variable} | ${l.description} | ${l.required} | ${l.example} |`,
+    '| --- | --- | --- | --- |',
+    ...envVars.map(envVar =>
+      `| \`${cell(envVar.name)}\` | ${cell(envVar.description)} | ${envVar.required ? l.yes : l.no} | ${envVar.example ? `\`${cell(envVar.example)}\`` : ''} |`),
+  ].join('\n');
+};
+
+export const leftoversChecklist = (leftovers: CheckFinding[], lang: Locale): string => {
+  const checks = getMessages(lang).reviewer.checks;
+  return leftovers
+    .map(finding => `- [ ] \`${formatLocation(finding.file, finding.line)}\` ${checks[finding.check].title}: \`${finding.match}\``)
+    .join('\n');
+};
+
+// Nests a draft under the export's own `##` sections; `#` lines inside code fences are left alone.
+const demoteHeadings = (markdown: string): string => {
+  let inFence = false;
+  return markdown.trim().split('\n').map(line => {
+    if (/^\s*(?:```|~~~)/.test(line)) inFence = !inFence;
+    return !inFence && /^#{1,5} /.test(line) ? `#${line}` : line;
+  }).join('\n');
+};
+
+/** Everything in one file: the three drafts followed by the cleanup checklist. */
+export const closingToMarkdown = (
+  docs: ClosingDocs,
+  leftovers: CheckFinding[],
+  meta: { title: string; lang: Locale }
+): string => {
+  const l = getMessages(meta.lang).exported;
+  return [
+    `# ${l.closingProtocol}: ${meta.title}`,
+    '',
+    `## ${l.readmeSection}`,
+    '',
+    demoteHeadings(docs.readme),
+    '',
+    `## ${l.envVars}`,
+    '',
+    envTableMarkdown(docs.envVars, meta.lang) || l.noEnvVars,
+    '',
+    `## ${l.architecture}`,
+    '',
+    demoteHeadings(docs.architecture),
+    '',
+    `## ${l.cleanup}`,
+    '',
+    leftoversChecklist(leftovers, meta.lang) || l.noLeftovers,
+    '',
+  ].join('\n');
+};
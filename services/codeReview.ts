@@ -0,0 +1,213 @@
+export type ReviewCheckId =
+  | 'hardcoded_secret'
+  | 'any_type'
+  | 'ts_ignore'
+  | 'todo_later'
+  | 'console_log'
+  | 'undocumented_env'
+  | 'dead_import';
+
+export type CheckSeverity = 'error' | 'warning';
+
+// One line of the code under review, numbered as in the new version of its file.
+export interface ReviewLine {
+  // Null for a pasted snippet.
+  file: string | null;
+  line: number;
+  text: string;
+  // False for diff context lines, which are shown to the model but not checked.
+  added: boolean;
+}
+
+export interface CheckFinding {
+  check: ReviewCheckId;
+  severity: CheckSeverity;
+  file: string | null;
+  line: number;
+  // The matched text; secrets are masked.
+  match: string;
+}
+
+interface ReviewCheck {
+  id: ReviewCheckId;
+  severity: CheckSeverity;
+  // The first pattern that matches a line is reported.
+  patterns: RegExp[];
+  // Only runs on files this accepts; a snippet (null) is always checked.
+  appliesTo?: (file: string) => boolean;
+}
+
+const SECRET_PATTERNS = [
+  /\bAKIA[0-9A-Z]{16}\b/,
+  /\bAIza[0-9A-Za-z_-]{35}\b/,
+  /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/,
+  /\bgh[pousr]_[A-Za-z0-9]{36}\b/,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/,
+  /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/,
+  /\b(?:api[_-]?key|secret|token|password|passwd)\w*["']?\s*[:=]\s*["'][^"'\s]{8,}["']/i,
+];
+
+const TYPED_SOURCE = /\.(?:ts|tsx|mts|cts)$/;
+const SCRIPT_SOURCE = /\.(?:[cm]?[jt]sx?|vue|svelte)$/;
+// Files where a new environment variable counts as documented.
+const ENV_DOCS = /(?:^|\/)(?:\.env\.[\w.-]+|[^/]+\.md)$/i;
+const ENV_READ = /\b(?:process\.env|import\.meta\.env)\.([A-Z_][A-Z0-9_]*)/g;
+
+const CHECKS: ReviewCheck[] = [
+  {
+    id: 'hardcoded_secret',
+    severity: 'error',
+    patterns: SECRET_PATTERNS,
+    appliesTo: file => !ENV_DOCS.test(file),
+  },
+  { id: 'ts_ignore', severity: 'error', patterns: [/@ts-(?:ignore|nocheck)\b/], appliesTo: file => SCRIPT_SOURCE.test(file) },
+  { id: 'any_type', severity: 'warning', patterns: [/(?::\s*any\b|\bas\s+any\b|<any>|\bany\[\])/], appliesTo: file => TYPED_SOURCE.test(file) },
+  { id: 'todo_later', severity: 'warning', patterns: [/\b(?:TODO|FIXME|HACK|XXX)\b.*/] },
+  { id: 'console_log', severity: 'warning', patterns: [/\bconsole\.(?:log|debug|trace)\b/], appliesTo: file => SCRIPT_SOURCE.test(file) },
+];
+
+// Keeps enough of a secret to find it again, never enough to leak it further.
+const mask = (secret: string) => (secret.length > 8 ? `${secret.slice(0, 4)}…${secret.slice(-2)}` : '…');
+
+const redactSecrets = (text: string) =>
+  SECRET_PATTERNS.reduce((out, pattern) => out.replace(new RegExp(pattern.source, `${pattern.flags}g`), mask), text);
+
+const stripPath = (path: string) => path.replace(/^"|"$/g, '').replace(/^[ab]\//, '');
+
+export const isUnifiedDiff = (text: string): boolean => /^(?:diff --git |@@ -\d)/m.test(text);
+
+/**
+ * Splits a unified diff into new-file lines with their numbers; removed lines are dropped.
+ * Anything else is treated as a single snippet numbered from 1, every line counted as added.
+ */
+export const parseReviewInput = (text: string): ReviewLine[] => {
+  const rows = text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  if (!isUnifiedDiff(text)) {
+    return rows.map((row, idx) => ({ file: null, line: idx + 1, text: row, added: true }));
+  }
+
+  const lines: ReviewLine[] = [];
+  let file: string | null = null;
+  let next = 0;
+  let inHunk = false;
+  rows.forEach((row, idx) => {
+    const hunk = row.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      next = Number(hunk[1]);
+      inHunk = true;
+    } else if (row.startsWith('diff --git ') || (row.startsWith('--- ') && rows[idx + 1]?.startsWith('+++ '))) {
+      // Plain `diff -u` output has no `diff --git` line between files.
+      inHunk = false;
+      const paths = row.match(/ b\/(.+)$/);
+      file = paths ? paths[1] : file;
+    } else if (!inHunk && row.startsWith('+++ ')) {
+      const path = row.slice(4).split('\t')[0];
+      if (path !== '/dev/null') file = stripPath(path);
+    } else if (inHunk && row.startsWith('+')) {
+      lines.push({ file, line: next++, text: row.slice(1), added: true });
+    } else if (inHunk && (row.startsWith(' ') || row === '')) {
+      lines.push({ file, line: next++, text: row.slice(1), added: false });
+    }
+  });
+  return lines;
+};
+
+/** Offline Phase 4 checks on the added lines, one finding per occurrence. */
+export const runReviewChecks = (lines: ReviewLine[]): CheckFinding[] => {
+  const added = lines.filter(line => line.added);
+  const findings = added.flatMap(line => CHECKS.flatMap((check): CheckFinding[] => {
+    if (line.file !== null && check.appliesTo && !check.appliesTo(line.file)) return [];
+    const match = check.patterns.map(pattern => line.text.match(pattern)).find(Boolean);
+    if (!match) return [];
+    const text = match[0].trim();
+    return [{
+      check: check.id,
+      severity: check.severity,
+      file: line.file,
+      line: line.line,
+      match: check.id === 'hardcoded_secret' ? mask(text) : text,
+    }];
+  }));
+
+  // An env var read in code is fine when the same diff adds it to .env.example or a README.
+  // A snippet shows no history, so only diffs can tell a new variable from an old one.
+  const documented = new Set(added
+    .filter(line => line.file !== null && ENV_DOCS.test(line.file))
+    .flatMap(line => line.text.match(/\b[A-Z_][A-Z0-9_]{2,}\b/g) || []));
+  const reported = new Set<string>();
+  for (const line of added) {
+    if (line.file === null || ENV_DOCS.test(line.file)) continue;
+    for (const [, name] of line.text.matchAll(ENV_READ)) {
+      if (documented.has(name) || reported.has(name)) continue;
+      reported.add(name);
+      findings.push({ check: 'undocumented_env', severity: 'warning', file: line.file, line: line.line, match: name });
+    }
+  }
+
+  return findings;
+};
+
+/** Environment variables the added lines read, in order of first use. */
+export const envVarsRead = (lines: ReviewLine[]): string[] =>
+  Array.from(new Set(lines
+    .filter(line => line.added && (line.file === null || !ENV_DOCS.test(line.file)))
+    .flatMap(line => Array.from(line.text.matchAll(ENV_READ), match => match[1]))));
+
+const IMPORT_LINE = /^\s*import\s+(?:type\s+)?(.+?)\s+from\s+["'][^"']+["']/;
+
+const importBindings = (clause: string): string[] => {
+  const names: string[] = [];
+  const named = clause.match(/\{([^}]*)\}/);
+  if (named) {
+    named[1].split(',').forEach(part => {
+      const name = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/).pop();
+      if (name) names.push(name);
+    });
+  }
+  const rest = clause.replace(/\{[^}]*\}/, '').split(',').map(part => part.trim()).filter(Boolean);
+  rest.forEach(part => names.push(part.replace(/^\*\s+as\s+/, '')));
+  return names.filter(name => /^[\w$]+$/.test(name));
+};
+
+/**
+ * Added imports whose bindings appear nowhere else in the same file. Only as reliable as
+ * the input: a diff shows part of each file, so paste whole files for a definitive answer.
+ */
+export const findDeadImports = (lines: ReviewLine[]): CheckFinding[] => {
+  const findings: CheckFinding[] = [];
+  lines.forEach((line, idx) => {
+    if (!line.added || (line.file !== null && !SCRIPT_SOURCE.test(line.file))) return;
+    const clause = line.text.match(IMPORT_LINE);
+    if (!clause) return;
+    const rest = lines.filter((other, otherIdx) => otherIdx !== idx && other.file === line.file && !IMPORT_LINE.test(other.text));
+    for (const name of importBindings(clause[1])) {
+      const used = new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`);
+      if (!rest.some(other => used.test(other.text))) {
+        findings.push({ check: 'dead_import', severity: 'warning', file: line.file, line: line.line, match: name });
+      }
+    }
+  });
+  return findings;
+};
+
+/** `path:line`, or just the line number for a snippet. */
+export const formatLocation = (file: string | null, line: number | null): string =>
+  [file, line].filter(part => part !== null && part !== '').join(':');
+
+/**
+ * The code as the model sees it: one header per file, then numbered lines, `+` marking added ones.
+ * Secrets are masked here too, so a leaked key is not sent on to the provider.
+ */
+export const numberedListing = (lines: ReviewLine[]): string => {
+  const width = String(Math.max(0, ...lines.map(line => line.line))).length;
+  let file: string | null | undefined;
+  const out: string[] = [];
+  for (const line of lines) {
+    if (line.file !== file) {
+      file = line.file;
+      if (file !== null) out.push(`${out.length > 0 ? '\n' : ''}=== ${file} ===`);
+    }
+    out.push(`${String(line.line).padStart(width)} ${line.added ? '+' : ' '} ${redactSecrets(line.text)}`);
+  }
+  return out.join('\n');
+};
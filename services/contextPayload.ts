@@ -0,0 +1,136 @@
+import { PhaseId, PlanStep, SOPPhase } from "../types";
+import { getMessages, Locale } from "../i18n/locales";
+
+export interface PayloadFile {
+  id: string;
+  name: string;
+  content: string;
+}
+
+// A rule that can be restated in the payload, addressed like the SOP search anchors.
+export interface PayloadRule {
+  key: string;
+  phaseId: PhaseId;
+  text: string;
+}
+
+export interface PayloadInput {
+  files: PayloadFile[];
+  rules: string[];
+  task: string;
+}
+
+// Builder state: rules are picked by key and resolved against the active language.
+export interface PayloadDraft {
+  files: PayloadFile[];
+  ruleKeys: string[];
+  task: string;
+}
+
+export interface ContextBudget {
+  model: string;
+  tokens: number;
+}
+
+export type BudgetStatus = 'ok' | 'near' | 'over';
+
+// Context windows of the models the Workshop ships defaults for, plus common smaller ones.
+export const CONTEXT_BUDGETS: ContextBudget[] = [
+  { model: 'gemini-2.5-flash', tokens: 1_048_576 },
+  { model: 'gemini-2.5-pro', tokens: 1_048_576 },
+  { model: 'gpt-4o', tokens: 128_000 },
+  { model: 'gpt-4o-mini', tokens: 128_000 },
+  // Ollama truncates to its own num_ctx, whatever the model could take.
+  { model: 'llama3.1', tokens: 8_192 },
+];
+
+// The answer needs room too, so a payload filling most of the window is already a problem.
+const NEAR_BUDGET_RATIO = 0.75;
+
+export const fenceLanguage = (file: string): string => {
+  const extension = file.split('.').pop()?.toLowerCase() || '';
+  const byExtension: Record<string, string> = {
+    ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', json: 'json', css: 'css', md: 'markdown', py: 'python',
+  };
+  return byExtension[extension] || '';
+};
+
+// A fence one backtick longer than any run inside the content, so pasted Markdown can't close it early.
+const fenceFor = (content: string): string => {
+  const longest = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+};
+
+export const fencedFile = (name: string, content: string): string[] => {
+  const fence = fenceFor(content);
+  return [`${fence}${fenceLanguage(name)}`, `// ${name}`, ...(content.trim() ? [content.replace(/\s+$/, '')] : []), fence];
+};
+
+const CJK_CHAR = /[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * Rough token count without a tokenizer: about four characters per token for code and
+ * English, one per character for CJK. Good enough to tell 5k from 500k.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(CJK_CHAR) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+export const budgetStatus = (tokens: number, budget: number): BudgetStatus =>
+  tokens > budget ? 'over' : tokens > budget * NEAR_BUDGET_RATIO ? 'near' : 'ok';
+
+/** Every standard op, do and don't of the SOP phases, in reading order. */
+export const collectRules = (phases: SOPPhase[]): PayloadRule[] =>
+  phases
+    .filter(phase => phase.id !== PhaseId.TOOLKIT)
+    .flatMap(phase => [
+      ...(phase.standardOps || []).map((text, idx) => ({ key: `${phase.id}:standardOps.${idx}`, phaseId: phase.id, text })),
+      ...phase.dos.map((text, idx) => ({ key: `${phase.id}:dos.${idx}`, phaseId: phase.id, text })),
+      ...phase.donts.map((text, idx) => ({ key: `${phase.id}:donts.${idx}`, phaseId: phase.id, text })),
+    ]);
+
+/** The fresh-chat prompt: delimited files first, then the restated rules, then the ask. */
+export const buildContextPayload = ({ files, rules, task }: PayloadInput, lang: Locale): string => {
+  const l = getMessages(lang).exported;
+  const filled = files.filter(file => file.name.trim() || file.content.trim());
+
+  return [
+    l.newChat,
+    '',
+    `== ${l.payload} ==`,
+    ...filled.flatMap(file => [...fencedFile(file.name.trim() || l.snippet, file.content), '']),
+    ...(rules.length > 0 ? [`== ${l.reminders} ==`, ...rules.map(rule => `- ${rule}`), ''] : []),
+    ...(task.trim() ? [`== ${l.instruction} ==`, task.trim(), ''] : []),
+  ].join('\n');
+};
+
+let nextFileId = 0;
+
+export const createPayloadFile = (name = '', content = ''): PayloadFile => ({
+  id: `file-${Date.now().toString(36)}-${nextFileId++}`,
+  name,
+  content,
+});
+
+/**
+ * Pre-fill for one plan step: an empty slot per context file, the Phase 2 rules, and the
+ * step's strategy with its acceptance criteria as the task.
+ */
+export const payloadFromStep = (step: PlanStep, phases: SOPPhase[], lang: Locale): PayloadDraft => {
+  const l = getMessages(lang).exported;
+  const criteria = step.acceptanceCriteria || [];
+
+  return {
+    files: (step.contextFiles || []).map(file => createPayloadFile(file)),
+    ruleKeys: collectRules(phases)
+      .filter(rule => rule.phaseId === PhaseId.CONTEXT && rule.key.includes(':standardOps.'))
+      .map(rule => rule.key),
+    task: [
+      step.title,
+      '',
+      step.promptStrategy,
+      ...(criteria.length > 0 ? ['', `${l.acceptance}:`, ...criteria.map(criterion => `- ${criterion}`)] : []),
+    ].join('\n'),
+  };
+};
@@ -0,0 +1,218 @@
+import { HouseRule, HouseRules, PhaseId, RuleSetVersion, SOPPhase, ValidationIssue } from "../types";
+import { describe, isRecord, SOP_PHASES, ValidationResult } from "./planValidator";
+import { getMessages, Locale } from "../i18n/locales";
+import { createId } from "./ids";
+
+const STORAGE_KEY = 'vibe-sop.house-rules';
+
+export const EMPTY_HOUSE_RULES: HouseRules = { rules: [], versions: [], enabled: true };
+
+// Untagged Markdown rules are general ones, which is what Phase 0 holds.
+const DEFAULT_RULE_PHASE = PhaseId.MANIFESTO;
+
+const isRule = (value: unknown): value is HouseRule => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Partial<HouseRule>;
+  return typeof rule.id === 'string'
+    && typeof rule.text === 'string'
+    && SOP_PHASES.includes(rule.phase as PhaseId);
+};
+
+const isVersion = (value: unknown): value is RuleSetVersion => {
+  if (typeof value !== 'object' || value === null) return false;
+  const version = value as Partial<RuleSetVersion>;
+  return typeof version.id === 'string'
+    && typeof version.name === 'string'
+    && typeof version.createdAt === 'number'
+    && Array.isArray(version.rules)
+    && version.rules.every(isRule);
+};
+
+/** Reads the team rules, silently dropping rules and versions that no longer match the schema. */
+export const loadHouseRules = (): HouseRules => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_HOUSE_RULES;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return EMPTY_HOUSE_RULES;
+    return {
+      rules: Array.isArray(parsed.rules) ? parsed.rules.filter(isRule) : [],
+      versions: Array.isArray(parsed.versions) ? parsed.versions.filter(isVersion) : [],
+      enabled: parsed.enabled !== false,
+    };
+  } catch {
+    return EMPTY_HOUSE_RULES;
+  }
+};
+
+const persist = (houseRules: HouseRules): HouseRules => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(houseRules));
+  } catch {
+    // Quota exceeded or storage disabled: keep the in-memory rules so the editor still works.
+  }
+  return houseRules;
+};
+
+export const createRule = (phase: PhaseId, text = ''): HouseRule => ({ id: createId(), text, phase });
+
+/** One rule per "Do" of the SOP, as a starting point for a team's own list. */
+export const starterRules = (phases: SOPPhase[]): HouseRule[] =>
+  phases
+    .filter(phase => SOP_PHASES.includes(phase.id))
+    .flatMap(phase => phase.dos.map(text => createRule(phase.id, text)));
+
+export const updateRules = (houseRules: HouseRules, rules: HouseRule[]): HouseRules =>
+  persist({ ...houseRules, rules });
+
+export const setRulesEnabled = (houseRules: HouseRules, enabled: boolean): HouseRules =>
+  persist({ ...houseRules, enabled });
+
+export const saveVersion = (
+  houseRules: HouseRules,
+  name: string,
+  now = Date.now()
+): { houseRules: HouseRules; saved: RuleSetVersion } => {
+  const saved: RuleSetVersion = { id: createId(), name, createdAt: now, rules: houseRules.rules };
+  return { houseRules: persist({ ...houseRules, versions: [saved, ...houseRules.versions] }), saved };
+};
+
+/** Replaces the working copy with a saved version; the versions themselves are untouched. */
+export const restoreVersion = (houseRules: HouseRules, id: string): HouseRules => {
+  const version = houseRules.versions.find(entry => entry.id === id);
+  return version ? persist({ ...houseRules, rules: version.rules }) : houseRules;
+};
+
+export const removeVersion = (houseRules: HouseRules, id: string): HouseRules =>
+  persist({ ...houseRules, versions: houseRules.versions.filter(version => version.id !== id) });
+
+/** The rules the Planner should follow; empty when they are switched off. */
+export const activeRules = (houseRules: HouseRules): HouseRule[] => (houseRules.enabled ? houseRules.rules : []);
+
+export type RuleChangeKind = 'added' | 'removed' | 'edited' | 'moved';
+
+export interface RuleChange {
+  kind: RuleChangeKind;
+  // 1-based rule numbers; `from` is null for an added rule, `to` for a removed one.
+  from: number | null;
+  to: number | null;
+  before: HouseRule | null;
+  after: HouseRule | null;
+}
+
+/**
+ * What changed between two rule lists, matched by rule id. A rule only counts as moved when
+ * its order relative to the other kept rules changed, not when an insertion renumbered it.
+ */
+export const diffRules = (before: HouseRule[], after: HouseRule[]): RuleChange[] => {
+  const beforeIds = before.map(rule => rule.id);
+  const afterIds = after.map(rule => rule.id);
+  const keptBefore = beforeIds.filter(id => afterIds.includes(id));
+  const keptAfter = afterIds.filter(id => beforeIds.includes(id));
+
+  const changes = after.flatMap((rule, idx): RuleChange[] => {
+    const oldIdx = beforeIds.indexOf(rule.id);
+    if (oldIdx === -1) return [{ kind: 'added', from: null, to: idx + 1, before: null, after: rule }];
+    const old = before[oldIdx];
+    const change = { from: oldIdx + 1, to: idx + 1, before: old, after: rule };
+    if (old.text.trim() !== rule.text.trim() || old.phase !== rule.phase) return [{ kind: 'edited', ...change }];
+    return keptBefore.indexOf(rule.id) !== keptAfter.indexOf(rule.id) ? [{ kind: 'moved', ...change }] : [];
+  });
+  const removed = before.flatMap((rule, idx): RuleChange[] =>
+    afterIds.includes(rule.id) ? [] : [{ kind: 'removed', from: idx + 1, to: null, before: rule, after: null }]);
+
+  return [...changes, ...removed];
+};
+
+// Blank rules keep their number, so the list reads the same in the editor and the prompt.
+const numbered = (rules: HouseRule[]) =>
+  rules.map((rule, idx) => ({ number: idx + 1, id: rule.id, phase: rule.phase, text: rule.text.trim() })).filter(rule => rule.text);
+
+/** The rules as the Planner's prompt lists them; empty when there are none. */
+export const houseRulesPrompt = (rules: HouseRule[]): string =>
+  numbered(rules).map(rule => `Rule #${rule.number} (${rule.phase}): ${rule.text}`).join('\n');
+
+export const rulesToJson = (rules: HouseRule[], name: string): string =>
+  JSON.stringify({ name, rules }, null, 2);
+
+/**
+ * Numbered list with the phase id in brackets, which `parseHouseRules` reads back. Each rule's id
+ * rides along in an HTML comment, hidden when the Markdown is rendered, so a round-trip keeps both
+ * the numbers and the ids that version diffs compare.
+ */
+export const rulesToMarkdown = (rules: HouseRule[], meta: { name: string; lang: Locale }): string => [
+  `# ${getMessages(meta.lang).exported.houseRules}: ${meta.name}`,
+  '',
+  ...numbered(rules).map(rule => `${rule.number}. [${rule.phase}] ${rule.text.replace(/\s*\n\s*/g, ' ')} <!-- id:${rule.id} -->`),
+  '',
+].join('\n');
+
+const phaseIssue = (path: string): ValidationIssue => ({ path, message: `expected one of ${SOP_PHASES.join(', ')}` });
+
+// Imported ids are kept so diffs against earlier versions still line up; duplicates get fresh ones.
+const withUniqueIds = (rules: { id?: string; text: string; phase: PhaseId }[]): HouseRule[] => {
+  const seen = new Set<string>();
+  return rules.map(rule => {
+    const id = rule.id && !seen.has(rule.id) ? rule.id : createId();
+    seen.add(id);
+    return { id, text: rule.text, phase: rule.phase };
+  });
+};
+
+const validateRulesJson = (value: unknown): ValidationResult<HouseRule[]> => {
+  // Accept a bare list as well as the `{ name, rules }` export.
+  const list = isRecord(value) ? value.rules : value;
+  const path = isRecord(value) ? 'rules' : '$';
+  if (!Array.isArray(list)) {
+    return { value: null, issues: [{ path, message: `expected an array of rules, got ${describe(list)}` }] };
+  }
+
+  const issues = list.flatMap((item, idx): ValidationIssue[] => {
+    const itemPath = `${path}[${idx}]`;
+    if (!isRecord(item)) return [{ path: itemPath, message: `expected an object, got ${describe(item)}` }];
+    return [
+      ...(typeof item.text === 'string' && item.text.trim() ? [] : [{ path: `${itemPath}.text`, message: 'expected a non-empty string' }]),
+      ...(SOP_PHASES.includes(item.phase as PhaseId) ? [] : [phaseIssue(`${itemPath}.phase`)]),
+      ...(item.id === undefined || typeof item.id === 'string' ? [] : [{ path: `${itemPath}.id`, message: `expected a string, got ${describe(item.id)}` }]),
+    ];
+  });
+  return issues.length > 0
+    ? { value: null, issues }
+    : { value: withUniqueIds(list as { id?: string; text: string; phase: PhaseId }[]), issues };
+};
+
+const MARKDOWN_RULE = /^\s*(\d+)[.)]\s+(?:\[([\w-]+)\]\s*)?(.*?)\s*(?:<!--\s*id:([\w-]+)\s*-->)?\s*$/;
+
+/**
+ * A skipped number is a blank rule, as in the export, so Rule #N stays rule N. Lists that
+ * repeat or go back ("1. 1. 1.", as some editors write them) are numbered in order instead.
+ */
+const parseRulesMarkdown = (text: string): ValidationResult<HouseRule[]> => {
+  const issues: ValidationIssue[] = [];
+  const rules: { id?: string; text: string; phase: PhaseId }[] = [];
+  text.split(/\r?\n/).forEach((line, idx) => {
+    const match = line.match(MARKDOWN_RULE);
+    if (!match || !match[3]) return;
+    const phase = (match[2] || DEFAULT_RULE_PHASE) as PhaseId;
+    if (!SOP_PHASES.includes(phase)) {
+      issues.push(phaseIssue(`line ${idx + 1}`));
+      return;
+    }
+    while (rules.length + 1 < Number(match[1])) rules.push(createRule(DEFAULT_RULE_PHASE));
+    rules.push({ id: match[4], text: match[3], phase });
+  });
+  if (issues.length === 0 && rules.length === 0) issues.push({ path: '$', message: 'no numbered rules found' });
+  return issues.length > 0 ? { value: null, issues } : { value: withUniqueIds(rules), issues };
+};
+
+/** Reads a JSON or Markdown export back into a rule list. */
+export const parseHouseRules = (text: string): ValidationResult<HouseRule[]> => {
+  if (!/^\s*[[{]/.test(text)) return parseRulesMarkdown(text);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { value: null, issues: [{ path: '$', message: `invalid JSON (${(error as Error).message})` }] };
+  }
+  return validateRulesJson(parsed);
+};
@@ -0,0 +1,5 @@
+/** Random id for locally stored records; falls back where `crypto.randomUUID` is missing (plain http). */
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
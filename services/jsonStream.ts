@@ -0,0 +1,46 @@
+/**
+ * Incremental reader for a JSON array nested under `key` inside a streamed object,
+ * e.g. the `steps` of `{"steps":[{...},{...`. Returns every element whose closing
+ * brace has already arrived, so callers can render them before the stream ends.
+ */
+export const extractCompleteArrayItems = <T>(buffer: string, key: string): T[] => {
+  const keyMatch = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(buffer);
+  if (!keyMatch) return [];
+
+  const items: T[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  for (let i = keyMatch.index + keyMatch[0].length; i < buffer.length; i++) {
+    const ch = buffer[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (depth === 0) break; // end of the array itself
+      depth--;
+      if (depth === 0 && itemStart >= 0) {
+        try {
+          items.push(JSON.parse(buffer.slice(itemStart, i + 1)) as T);
+        } catch {
+          // A malformed element is skipped; the final parse reports the real error.
+        }
+        itemStart = -1;
+      }
+    }
+  }
+
+  return items;
+};
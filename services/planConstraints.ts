@@ -0,0 +1,89 @@
+import { PlanConstraints, ProjectKind, StepGranularity } from "../types";
+import { isRecord } from "./planValidator";
+
+const STORAGE_KEY = 'vibe-sop.plan-constraints';
+
+export const PROJECT_KINDS: ProjectKind[] = ['greenfield', 'brownfield'];
+
+export const STEP_GRANULARITIES: StepGranularity[] = ['fine', 'balanced', 'coarse'];
+
+// "Balanced" is what the planner does unprompted, so an untouched form adds nothing to the prompt.
+export const EMPTY_CONSTRAINTS: PlanConstraints = {
+  techStack: '',
+  existingModules: [],
+  hardConstraints: [],
+  granularity: 'balanced',
+  project: null,
+};
+
+// Sizes match the step field guide: "S" is one prompt, "M" a few.
+const GRANULARITY_GUIDE: Record<StepGranularity, string> = {
+  fine: 'Fine-grained. Every step is size "S": one file or one function, done in one prompt. Prefer more, smaller steps.',
+  balanced: 'Balanced. Mostly "S" steps; "M" only where splitting would leave the code broken in between.',
+  coarse: 'Coarse. Fewer steps of size "M", each still a single concern that leaves the code compiling.',
+};
+
+const PROJECT_GUIDE: Record<ProjectKind, string> = {
+  greenfield: 'Greenfield, a new codebase. Start with the contract (types and interfaces) and plan no logic until it is accepted.',
+  brownfield: 'Brownfield, an existing codebase. Extend the existing modules instead of rewriting them, keep their current behaviour, and first pin down the interfaces the change touches.',
+};
+
+const cleanList = (items: string[]) => Array.from(new Set(items.map(item => item.trim()).filter(Boolean)));
+
+/** Trims fields and drops blank or repeated entries: the form keeps raw lines, plans keep this. */
+export const normalizeConstraints = (constraints: PlanConstraints): PlanConstraints => ({
+  ...constraints,
+  techStack: constraints.techStack.trim(),
+  existingModules: cleanList(constraints.existingModules),
+  hardConstraints: cleanList(constraints.hardConstraints),
+});
+
+export const hasConstraints = (constraints: PlanConstraints): boolean => {
+  const { techStack, existingModules, hardConstraints, granularity, project } = normalizeConstraints(constraints);
+  return Boolean(techStack) || existingModules.length > 0 || hardConstraints.length > 0
+    || granularity !== EMPTY_CONSTRAINTS.granularity || project !== null;
+};
+
+/** The planner-facing listing; empty when nothing was stated. */
+export const constraintsPrompt = (constraints: PlanConstraints): string => {
+  if (!hasConstraints(constraints)) return '';
+  const { techStack, existingModules, hardConstraints, granularity, project } = normalizeConstraints(constraints);
+  return [
+    ...(techStack ? [`Tech stack: ${techStack}`] : []),
+    ...(project ? [`Project: ${PROJECT_GUIDE[project]}`] : []),
+    ...(granularity !== EMPTY_CONSTRAINTS.granularity ? [`Step granularity: ${GRANULARITY_GUIDE[granularity]}`] : []),
+    ...(existingModules.length > 0 ? ['Existing modules to reuse:', ...existingModules.map(item => `- ${item}`)] : []),
+    ...(hardConstraints.length > 0 ? ['Hard constraints:', ...hardConstraints.map(item => `- ${item}`)] : []),
+  ].join('\n');
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const isPlanConstraints = (value: unknown): value is PlanConstraints =>
+  isRecord(value)
+    && typeof value.techStack === 'string'
+    && isStringList(value.existingModules)
+    && isStringList(value.hardConstraints)
+    && STEP_GRANULARITIES.includes(value.granularity as StepGranularity)
+    && (value.project === null || PROJECT_KINDS.includes(value.project as ProjectKind));
+
+/** The Workshop's last inputs, so a project's stack does not have to be retyped for every task. */
+export const loadConstraints = (): PlanConstraints => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return EMPTY_CONSTRAINTS;
+    const parsed: unknown = JSON.parse(raw);
+    return isPlanConstraints(parsed) ? parsed : EMPTY_CONSTRAINTS;
+  } catch {
+    return EMPTY_CONSTRAINTS;
+  }
+};
+
+export const saveConstraints = (constraints: PlanConstraints): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(constraints));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the inputs just won't stick.
+  }
+};
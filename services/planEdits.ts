@@ -0,0 +1,38 @@
+import { PlannerResponse, PlanStep } from "../types";
+
+// Step numbers in `dependsOn` are 1-based positions, so every structural edit has to
+// renumber them. `newNumberOf[oldIndex]` is the step's new 1-based number, or null if it was removed.
+const renumberDependencies = (steps: PlanStep[], newNumberOf: (number | null)[]): PlanStep[] =>
+  steps.map((step, idx) => {
+    if (!step.dependsOn) return step;
+    const dependsOn = step.dependsOn
+      .map(dep => newNumberOf[dep - 1] ?? null)
+      .filter((dep): dep is number => dep !== null && dep < idx + 1);
+    return { ...step, dependsOn };
+  });
+
+export const replaceStep = (plan: PlannerResponse, index: number, step: PlanStep): PlannerResponse => ({
+  ...plan,
+  steps: plan.steps.map((s, i) => (i === index ? step : s)),
+});
+
+export const appendStep = (plan: PlannerResponse, step: PlanStep): PlannerResponse => ({
+  ...plan,
+  steps: [...plan.steps, step],
+});
+
+export const removeStep = (plan: PlannerResponse, index: number): PlannerResponse => {
+  const newNumberOf = plan.steps.map((_, i) => (i === index ? null : i < index ? i + 1 : i));
+  return { ...plan, steps: renumberDependencies(plan.steps.filter((_, i) => i !== index), newNumberOf) };
+};
+
+/** Moves a step and renumbers dependencies; links that would now point forward are dropped. */
+export const moveStep = (plan: PlannerResponse, from: number, to: number): PlannerResponse => {
+  const order = plan.steps.map((_, i) => i);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+
+  const newNumberOf: number[] = [];
+  order.forEach((oldIndex, newIndex) => { newNumberOf[oldIndex] = newIndex + 1; });
+  return { ...plan, steps: renumberDependencies(order.map(i => plan.steps[i]), newNumberOf) };
+};
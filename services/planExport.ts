@@ -0,0 +1,118 @@
+import { PlannerResponse, PlanStep, SOPPhase } from "../types";
+import { getProgress } from "./stepProgress";
+import { createZip } from "./zip";
+import { getMessages, Locale } from "../i18n/locales";
+import { fencedFile } from "./contextPayload";
+
+interface ExportMeta {
+  title: string;
+  input: string;
+  lang: Locale;
+}
+
+const labels = (lang: Locale) => getMessages(lang).exported;
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+/** GitHub-flavoured checklist, one task-list item per step. */
+export const planToMarkdown = (plan: PlannerResponse, meta: ExportMeta): string => {
+  const l = labels(meta.lang);
+  const steps = plan.steps.map((step, idx) => {
+    const progress = getProgress(step);
+    const title = progress.status === 'skipped' ? `~~${step.title}~~ (${l.skipped})` : step.title;
+    return [
+      `- [${progress.status === 'done' ? 'x' : ' '}] **${idx + 1}. ${title}**`,
+      `  - ${l.strategy}: ${step.promptStrategy}`,
+      `  - ${l.risk}: ${step.risk}`,
+      ...(step.size ? [`  - ${l.size}: ${step.size}`] : []),
+      ...(step.dependsOn && step.dependsOn.length > 0
+        ? [`  - ${l.dependsOn}: ${step.dependsOn.map(dep => `#${dep}`).join(', ')}`]
+        : []),
+      ...(step.contextFiles && step.contextFiles.length > 0
+        ? [`  - ${l.contextFiles}: ${step.contextFiles.map(file => `\`${file}\``).join(', ')}`]
+        : []),
+      ...(step.acceptanceCriteria && step.acceptanceCriteria.length > 0
+        ? [`  - ${l.acceptance}:`, ...step.acceptanceCriteria.map(criterion => `    - [ ] ${criterion}`)]
+        : []),
+      ...(progress.notes.trim() ? [`  - ${l.notes}: ${progress.notes.trim().replace(/\n+/g, ' ')}`] : []),
+    ].join('\n');
+  });
+
+  return [
+    `## ${l.blueprint}: ${meta.title}`,
+    '',
+    `**${l.task}:**`,
+    '',
+    quote(meta.input.trim()),
+    '',
+    ...steps,
+    '',
+  ].join('\n');
+};
+
+export const planToJson = (plan: PlannerResponse): string => `${JSON.stringify(plan, null, 2)}\n`;
+
+/**
+ * Ready-to-paste prompt for one step: a fresh-chat Context Payload skeleton (one block
+ * per context file when the step names them), the Phase 2 rule reminders and the step's
+ * own strategy and acceptance criteria.
+ */
+export const buildStepPrompt = (
+  step: PlanStep,
+  index: number,
+  total: number,
+  contextPhase: SOPPhase | undefined,
+  lang: Locale
+): string => {
+  const l = labels(lang);
+  const reminders = contextPhase?.standardOps || [];
+  const payload = step.contextFiles && step.contextFiles.length > 0
+    ? step.contextFiles.flatMap(file => fencedFile(file, ''))
+    : ['```typescript', l.typesPlaceholder, '```', '```typescript', l.filePlaceholder, '```'];
+
+  return [
+    `${l.newChat} ${l.step} ${index + 1}/${total}: ${step.title}`,
+    '',
+    `== ${l.payload} ==`,
+    ...payload,
+    '',
+    ...(reminders.length > 0
+      ? [`== ${l.reminders} (${contextPhase?.title}) ==`, ...reminders.map(rule => `- ${rule}`), '']
+      : []),
+    `== ${l.instruction} ==`,
+    step.promptStrategy,
+    '',
+    `== ${l.watchOut} ==`,
+    step.risk,
+    '',
+    ...(step.acceptanceCriteria && step.acceptanceCriteria.length > 0
+      ? [`== ${l.acceptance} ==`, ...step.acceptanceCriteria.map(criterion => `- ${criterion}`), '']
+      : []),
+  ].join('\n');
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 48) || 'step';
+
+/** Zip with one `NN-step-title.txt` prompt file per step. */
+export const buildPromptPack = (plan: PlannerResponse, contextPhase: SOPPhase | undefined, lang: Locale): Blob =>
+  createZip(plan.steps.map((step, idx) => ({
+    name: `${String(idx + 1).padStart(2, '0')}-${slugify(step.title)}.txt`,
+    content: buildStepPrompt(step, idx, plan.steps.length, contextPhase, lang),
+  })));
+
+export const exportFileName = (title: string, extension: string): string =>
+  `vibe-plan-${slugify(title)}.${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (content: string, fileName: string, mimeType: string): void =>
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
@@ -0,0 +1,104 @@
+import { SavedPlan } from "../types";
+import { isLocale } from "../i18n/locales";
+import { isRecord, validatePlannerResponse } from "./planValidator";
+import { isPlanConstraints } from "./planConstraints";
+import { isProviderId } from "./settingsStore";
+import { createId } from "./ids";
+
+const STORAGE_KEY = 'vibe-sop.plan-history';
+const ACTIVE_KEY = 'vibe-sop.active-plan';
+const DEFAULT_NAME_LENGTH = 60;
+
+const isSavedPlan = (value: unknown): value is SavedPlan => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Partial<SavedPlan>;
+  return typeof entry.id === 'string'
+    && typeof entry.name === 'string'
+    && typeof entry.input === 'string'
+    && typeof entry.createdAt === 'number'
+    && typeof entry.pinned === 'boolean'
+    && typeof entry.lang === 'string' && isLocale(entry.lang)
+    && isProviderId(entry.provider)
+    && typeof entry.model === 'string'
+    && (entry.template === undefined
+      || (isRecord(entry.template) && typeof entry.template.id === 'string' && typeof entry.template.version === 'number'))
+    && (entry.constraints === undefined || isPlanConstraints(entry.constraints))
+    && validatePlannerResponse(entry.plan).value !== null;
+};
+
+/** Reads saved plans, silently dropping entries that no longer match the schema. */
+export const loadHistory = (): SavedPlan[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isSavedPlan) : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (history: SavedPlan[]): SavedPlan[] => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Quota exceeded or storage disabled: keep the in-memory list so the session still works.
+  }
+  return history;
+};
+
+export const defaultPlanName = (input: string): string => {
+  const firstLine = input.trim().split('\n')[0];
+  return firstLine.length > DEFAULT_NAME_LENGTH ? `${firstLine.slice(0, DEFAULT_NAME_LENGTH)}…` : firstLine;
+};
+
+export const addToHistory = (
+  history: SavedPlan[],
+  entry: Omit<SavedPlan, 'id' | 'name' | 'pinned' | 'createdAt'>
+): { history: SavedPlan[]; saved: SavedPlan } => {
+  const saved: SavedPlan = {
+    ...entry,
+    id: createId(),
+    name: defaultPlanName(entry.input),
+    pinned: false,
+    createdAt: Date.now(),
+  };
+  return { history: persist([saved, ...history]), saved };
+};
+
+export const updateInHistory = (
+  history: SavedPlan[],
+  id: string,
+  patch: Partial<Omit<SavedPlan, 'id'>>
+): SavedPlan[] => persist(history.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)));
+
+export const removeFromHistory = (history: SavedPlan[], id: string): SavedPlan[] =>
+  persist(history.filter(entry => entry.id !== id));
+
+/** Pinned plans first, then newest first; `query` matches name, input and step titles. */
+export const searchHistory = (history: SavedPlan[], query: string): SavedPlan[] => {
+  const needle = query.trim().toLowerCase();
+  const matches = needle
+    ? history.filter(entry =>
+        [entry.name, entry.input, ...entry.plan.steps.map(step => step.title)]
+          .some(text => text.toLowerCase().includes(needle)))
+    : history;
+  return [...matches].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt);
+};
+
+export const loadActivePlanId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActivePlanId = (id: string | null): void => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_KEY, id);
+    else localStorage.removeItem(ACTIVE_KEY);
+  } catch {
+    // Not critical: the Workshop just opens empty next time.
+  }
+};
@@ -0,0 +1,258 @@
+import {
+  ClosingDocs,
+  LegacyAnalysis,
+  LogicReview,
+  PhaseId,
+  PlannerResponse,
+  PlanStep,
+  PromptRewrite,
+  ReviewSeverity,
+  SideEffectKind,
+  StepSize,
+  ValidationIssue
+} from "../types";
+
+// `value` is set only when `issues` is empty.
+export interface ValidationResult<T> {
+  value: T | null;
+  issues: ValidationIssue[];
+}
+
+const invalid = <T>(issues: ValidationIssue[]): ValidationResult<T> => ({ value: null, issues });
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const STEP_FIELDS: (keyof PlanStep)[] = ['title', 'promptStrategy', 'risk'];
+export const STEP_SIZES: StepSize[] = ['S', 'M', 'L'];
+// Phases a plan step can belong to; the Workshop itself is not an SOP phase.
+export const SOP_PHASES: PhaseId[] = Object.values(PhaseId).filter(phase => phase !== PhaseId.TOOLKIT);
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ['high', 'medium', 'low'];
+export const SIDE_EFFECT_KINDS: SideEffectKind[] = ['network', 'storage', 'dom', 'global_state', 'io', 'timer', 'logging', 'other'];
+
+export const validateStringList = (value: unknown, path: string): ValidationIssue[] => {
+  if (!Array.isArray(value)) return [{ path, message: `expected an array of strings, got ${describe(value)}` }];
+  return value.flatMap((item, idx) =>
+    typeof item === 'string' ? [] : [{ path: `${path}[${idx}]`, message: `expected a string, got ${describe(item)}` }]);
+};
+
+// Optional fields are checked only when present, so plans saved before they existed stay valid.
+const validateOptionalFields = (value: Record<string, unknown>, path: string, position?: number): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  if (value.acceptanceCriteria !== undefined) {
+    issues.push(...validateStringList(value.acceptanceCriteria, `${path}.acceptanceCriteria`));
+  }
+  if (value.contextFiles !== undefined) {
+    issues.push(...validateStringList(value.contextFiles, `${path}.contextFiles`));
+  }
+  if (value.phase !== undefined && !SOP_PHASES.includes(value.phase as PhaseId)) {
+    issues.push({ path: `${path}.phase`, message: `expected one of ${SOP_PHASES.join(', ')}` });
+  }
+  if (value.size !== undefined && !STEP_SIZES.includes(value.size as StepSize)) {
+    issues.push({ path: `${path}.size`, message: `expected one of ${STEP_SIZES.join(', ')}` });
+  }
+  if (value.dependsOn !== undefined) {
+    if (!Array.isArray(value.dependsOn)) {
+      issues.push({ path: `${path}.dependsOn`, message: `expected an array of step numbers, got ${describe(value.dependsOn)}` });
+    } else {
+      value.dependsOn.forEach((dep, idx) => {
+        if (typeof dep !== 'number' || !Number.isInteger(dep) || dep < 1) {
+          issues.push({ path: `${path}.dependsOn[${idx}]`, message: 'expected a step number (1-based integer)' });
+        } else if (position !== undefined && dep >= position) {
+          issues.push({ path: `${path}.dependsOn[${idx}]`, message: `step ${position} can only depend on earlier steps, got ${dep}` });
+        }
+      });
+    }
+  }
+  return issues;
+};
+
+/** `position` is the step's 1-based number; when given, dependencies must point at earlier steps. */
+export const validatePlanStep = (value: unknown, path = 'step', position?: number): ValidationResult<PlanStep> => {
+  if (!isRecord(value)) {
+    return invalid([{ path, message: `expected an object, got ${describe(value)}` }]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const field of STEP_FIELDS) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined) {
+      issues.push({ path: `${path}.${field}`, message: 'is required' });
+    } else if (typeof fieldValue !== 'string') {
+      issues.push({ path: `${path}.${field}`, message: `expected a string, got ${describe(fieldValue)}` });
+    } else if (!fieldValue.trim()) {
+      issues.push({ path: `${path}.${field}`, message: 'must not be empty' });
+    }
+  }
+
+  issues.push(...validateOptionalFields(value, path, position));
+
+  return issues.length > 0 ? invalid(issues) : { value: value as unknown as PlanStep, issues };
+};
+
+/** Checks an already-parsed model response against the `PlannerResponse` contract. */
+export const validatePlannerResponse = (value: unknown): ValidationResult<PlannerResponse> => {
+  if (!isRecord(value)) {
+    return invalid([{ path: '$', message: `expected an object, got ${describe(value)}` }]);
+  }
+  if (!Array.isArray(value.steps)) {
+    return invalid([
+      { path: 'steps', message: value.steps === undefined ? 'is required' : `expected an array, got ${describe(value.steps)}` },
+    ]);
+  }
+  if (value.steps.length === 0) {
+    return invalid([{ path: 'steps', message: 'must contain at least one step' }]);
+  }
+
+  const issues = value.steps.flatMap((step, idx) => validatePlanStep(step, `steps[${idx}]`, idx + 1).issues);
+
+  return issues.length > 0 ? invalid(issues) : { value: value as unknown as PlannerResponse, issues };
+};
+
+export const validatePromptRewrite = (value: unknown): ValidationResult<PromptRewrite> => {
+  if (!isRecord(value)) {
+    return invalid([{ path: '$', message: `expected an object, got ${describe(value)}` }]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (value.prompt === undefined) {
+    issues.push({ path: 'prompt', message: 'is required' });
+  } else if (typeof value.prompt !== 'string') {
+    issues.push({ path: 'prompt', message: `expected a string, got ${describe(value.prompt)}` });
+  } else if (!value.prompt.trim()) {
+    issues.push({ path: 'prompt', message: 'must not be empty' });
+  }
+  issues.push(...(value.changes === undefined
+    ? [{ path: 'changes', message: 'is required' }]
+    : validateStringList(value.changes, 'changes')));
+
+  return issues.length > 0 ? invalid(issues) : { value: value as unknown as PromptRewrite, issues };
+};
+
+const validateText = (value: unknown, path: string): ValidationIssue[] => {
+  if (value === undefined) return [{ path, message: 'is required' }];
+  if (typeof value !== 'string') return [{ path, message: `expected a string, got ${describe(value)}` }];
+  return value.trim() ? [] : [{ path, message: 'must not be empty' }];
+};
+
+// Each item must be an object whose `fields` are non-empty strings.
+const validateRecordList = (value: unknown, path: string, fields: string[]): ValidationIssue[] => {
+  if (value === undefined) return [{ path, message: 'is required' }];
+  if (!Array.isArray(value)) return [{ path, message: `expected an array, got ${describe(value)}` }];
+  return value.flatMap((item, idx) => isRecord(item)
+    ? fields.flatMap(field => validateText(item[field], `${path}[${idx}].${field}`))
+    : [{ path: `${path}[${idx}]`, message: `expected an object, got ${describe(item)}` }]);
+};
+
+/** A `PlannerResponse` (the refactor plan) plus the Reverse Engineer findings. */
+export const validateLegacyAnalysis = (value: unknown): ValidationResult<LegacyAnalysis> => {
+  const plan = validatePlannerResponse(value);
+  if (!isRecord(value)) return invalid(plan.issues);
+
+  const issues = [
+    ...plan.issues,
+    ...validateText(value.inferredInterface, 'inferredInterface'),
+    ...validateRecordList(value.sideEffects, 'sideEffects', ['description', 'location']),
+    ...validateRecordList(value.hiddenDependencies, 'hiddenDependencies', ['name', 'reason']),
+  ];
+  if (Array.isArray(value.sideEffects)) {
+    value.sideEffects.forEach((effect, idx) => {
+      if (isRecord(effect) && !SIDE_EFFECT_KINDS.includes(effect.kind as SideEffectKind)) {
+        issues.push({ path: `sideEffects[${idx}].kind`, message: `expected one of ${SIDE_EFFECT_KINDS.join(', ')}` });
+      }
+    });
+  }
+
+  return issues.length > 0 ? invalid(issues) : { value: value as unknown as LegacyAnalysis, issues };
+};
+
+export const validateLogicReview = (value: unknown): ValidationResult<LogicReview> => {
+  if (!isRecord(value)) {
+    return invalid([{ path: '$', message: `expected an object, got ${describe(value)}` }]);
+  }
+
+  const issues = [
+    ...validateText(value.summary, 'summary'),
+    ...validateRecordList(value.findings, 'findings', ['title', 'detail']),
+  ];
+  if (Array.isArray(value.findings)) {
+    value.findings.forEach((finding, idx) => {
+      if (!isRecord(finding)) return;
+      const path = `findings[${idx}]`;
+      if (!REVIEW_SEVERITIES.includes(finding.severity as ReviewSeverity)) {
+        issues.push({ path: `${path}.severity`, message: `expected one of ${REVIEW_SEVERITIES.join(', ')}` });
+      }
+      if (typeof finding.file !== 'string') {
+        issues.push({ path: `${path}.file`, message: `expected a string, got ${describe(finding.file)}` });
+      }
+      if (typeof finding.line !== 'number' || !Number.isInteger(finding.line) || finding.line < 0) {
+        issues.push({ path: `${path}.line`, message: 'expected a line number (0 for the whole change)' });
+      }
+    });
+  }
+
+  return issues.length > 0 ? invalid(issues) : { value: value as unknown as LogicReview, issues };
+};
+
+export const validateClosingDocs = (value: unknown): ValidationResult<ClosingDocs> => {
+  if (!isRecord(value)) {
+    return invalid([{ path: '$', message: `expected an object, got ${describe(value)}` }]);
+  }
+
+  const issues = [
+    ...validateText(value.readme, 'readme'),
+    ...validateText(value.architecture, 'architecture'),
+    ...validateRecordList(value.envVars, 'envVars', ['name', 'description']),
+  ];
+  if (Array.isArray(value.envVars)) {
+    value.envVars.forEach((envVar, idx) => {
+      if (!isRecord(envVar)) return;
+      if (typeof envVar.required !== 'boolean') {
+        issues.push({ path: `envVars[${idx}].required`, message: `expected a boolean, got ${describe(envVar.required)}` });
+      }
+      if (typeof envVar.example !== 'string') {
+        issues.push({ path: `envVars[${idx}].example`, message: `expected a string, got ${describe(envVar.example)}` });
+      }
+    });
+  }
+
+  return issues.length > 0 ? invalid(issues) : { value: value as unknown as ClosingDocs, issues };
+};
+
+/** Saved plans carry no mode flag: a legacy analysis is recognised by its findings. */
+export const isLegacyAnalysis = (plan: PlannerResponse): plan is LegacyAnalysis =>
+  typeof (plan as Partial<LegacyAnalysis>).inferredInterface === 'string';
+
+const parseWith = <T>(text: string, validate: (value: unknown) => ValidationResult<T>): ValidationResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return invalid([{ path: '$', message: `invalid JSON (${(error as Error).message})` }]);
+  }
+  return validate(parsed);
+};
+
+/** Parses raw model text and validates it; JSON syntax errors are reported as an issue at `$`. */
+export const parsePlannerResponse = (text: string): ValidationResult<PlannerResponse> =>
+  parseWith(text, validatePlannerResponse);
+
+export const parsePlanStep = (text: string, position?: number): ValidationResult<PlanStep> =>
+  parseWith(text, value => validatePlanStep(value, '$', position));
+
+export const parsePromptRewrite = (text: string): ValidationResult<PromptRewrite> =>
+  parseWith(text, validatePromptRewrite);
+
+export const parseLegacyAnalysis = (text: string): ValidationResult<LegacyAnalysis> =>
+  parseWith(text, validateLegacyAnalysis);
+
+export const parseLogicReview = (text: string): ValidationResult<LogicReview> =>
+  parseWith(text, validateLogicReview);
+
+export const parseClosingDocs = (text: string): ValidationResult<ClosingDocs> =>
+  parseWith(text, validateClosingDocs);
+
+export const formatIssue = (issue: ValidationIssue): string => `${issue.path}: ${issue.message}`;
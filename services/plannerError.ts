@@ -0,0 +1,61 @@
+import { PlannerErrorKind } from "../types";
+
+const RETRYABLE_KINDS: PlannerErrorKind[] = ['quota', 'timeout', 'network', 'server', 'empty'];
+
+export class PlannerError extends Error {
+  readonly kind: PlannerErrorKind;
+  // HTTP status of the failed call, when there was one.
+  readonly status?: number;
+
+  constructor(kind: PlannerErrorKind, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'PlannerError';
+    this.kind = kind;
+    this.status = options.status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const kindFromStatus = (status: number): PlannerErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+const readStatus = (error: unknown): number | undefined => {
+  if (typeof error !== 'object' || error === null) return undefined;
+  const status = (error as { status?: unknown }).status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+/** Maps anything a provider can throw (SDK errors, fetch failures, aborts) onto a PlannerError. */
+export const toPlannerError = (error: unknown): PlannerError => {
+  if (error instanceof PlannerError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new PlannerError('cancelled', message, { cause: error });
+  }
+
+  const status = readStatus(error);
+  if (status !== undefined) {
+    return new PlannerError(kindFromStatus(status), message, { status, cause: error });
+  }
+
+  if (/api key not valid|permission denied|unauthenticated/i.test(message)) {
+    return new PlannerError('auth', message, { cause: error });
+  }
+  if (/resource_exhausted|quota|rate limit/i.test(message)) {
+    return new PlannerError('quota', message, { cause: error });
+  }
+  // fetch() rejects with a bare TypeError when the host is unreachable or CORS blocks it.
+  if (error instanceof TypeError || /network|failed to fetch|ECONNREFUSED/i.test(message)) {
+    return new PlannerError('network', message, { cause: error });
+  }
+  return new PlannerError('unknown', message, { cause: error });
+};
@@ -0,0 +1,123 @@
+import { PhaseId } from "../types";
+
+export type LintRuleId =
+  | 'scope_creep'
+  | 'missing_context'
+  | 'placeholder_request'
+  | 'vague_verb'
+  | 'missing_constraints';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  // The SOP phase that explains the rule.
+  phase: PhaseId;
+  // The offending words as written in the draft, when the rule matched something specific.
+  matches: string[];
+}
+
+export interface LintReport {
+  // 100 for a clean prompt; every finding costs points by severity.
+  score: number;
+  findings: LintFinding[];
+}
+
+interface LintRule {
+  id: LintRuleId;
+  severity: LintSeverity;
+  phase: PhaseId;
+  // Returns the matched text when the rule fires, null when the draft passes.
+  check: (draft: string) => string[] | null;
+}
+
+const SEVERITY_PENALTY: Record<LintSeverity, number> = { error: 25, warning: 10 };
+
+// Patterns cover English and Chinese drafts whatever the UI language is.
+const ACTION_VERBS = /\b(?:add|implement|create|build|make|refactor|rewrite|write|integrate|support|migrate|set up)\b|添加|实现|创建|开发|重构|重写|编写|集成|支持|迁移|搭建/gi;
+const CONJUNCTIONS = /\b(?:and also|also|plus|as well as|and then|on top of that)\b|还要|同时|另外|以及|并且|顺便/i;
+const VAGUE_VERBS = /\b(?:fix (?:it|this|that|everything)|make it work|(?:does ?n[o']t|is ?n[o']t|not) work(?:ing)?|clean (?:it )?up|make it (?:better|nicer|faster)|improve (?:it|this)|optimi[sz]e (?:it|this)|handle (?:it|this))\b|修一下|修复一下|搞定|弄好|优化一下|改一下|完善一下|不能用|不工作|跑不起来/gi;
+// Asking for the shortcut, not naming it: "use placeholders" or "add a TODO", while "a todo app" passes.
+const PLACEHOLDER_REQUESTS = /\b(?:use|leave|add|put|insert|include|write|return|generate|with|just)\s+(?:(?:a|an|some|the)\s+)?(?:placeholders?|todos?|todo comments?|stubs?|pseudo-?code|skeletons?)\b|\b(?:fill (?:it |this )?in later|rest of the code|for brevity|leave (?:it|the rest) (?:empty|blank))\b|(?:用|留|加|写|放)(?:个|一个|一些|上)?\s*(?:占位|TODO|伪代码)|占位符|伪代码|先留空|后面再补|省略/gi;
+// A negation earlier in the same clause ("Never use placeholders", "不要省略") forbids the shortcut; one in an
+// earlier clause negates something else ("Don't change the API, just use placeholders" is still a request).
+const NEGATION = /\b(?:no|not|don't|do not|never|without|avoid|forbid)\b|不要|不得|禁止|不能|不许|别|避免/i;
+const CLAUSE_TAIL = /[^.!?;:,。！？；：，\n]*$/;
+const CONSTRAINTS = /\b(?:keep(?:ing)?|only|must|do not|don't|never|without|unchanged|constant|avoid|no new|leave .+ as is)\b|保持|只|仅|必须|不要|不得|不变|禁止|避免|不能改/i;
+const CODE_FENCE = /```/;
+const FILE_REFERENCE = /\b[\w./-]+\.(?:tsx?|jsx?|json|css|scss|html|md|py|go|rs|java|sql)\b/i;
+
+const matchesOf = (draft: string, pattern: RegExp): string[] =>
+  Array.from(new Set((draft.match(pattern) || []).map(match => match.trim())));
+
+const requestsOf = (draft: string, pattern: RegExp): string[] =>
+  Array.from(new Set(Array.from(draft.matchAll(pattern))
+    .filter(match => {
+      const before = draft.slice(0, match.index);
+      return !NEGATION.test(before.slice(before.search(CLAUSE_TAIL)));
+    })
+    .map(match => match[0].trim())));
+
+const RULES: LintRule[] = [
+  {
+    // Phase 3: one atomic unit per ask. Three actions, or two glued with "also", is a bundle.
+    id: 'scope_creep',
+    severity: 'error',
+    phase: PhaseId.ITERATION,
+    check: draft => {
+      const actions = draft.match(ACTION_VERBS) || [];
+      return actions.length >= 3 || (actions.length >= 2 && CONJUNCTIONS.test(draft)) ? matchesOf(draft, ACTION_VERBS) : null;
+    },
+  },
+  {
+    // Phase 2: the Context Payload is pasted code, not file names.
+    id: 'missing_context',
+    severity: 'error',
+    phase: PhaseId.CONTEXT,
+    check: draft => {
+      if (CODE_FENCE.test(draft)) return null;
+      const file = draft.match(FILE_REFERENCE);
+      return file ? [file[0]] : [];
+    },
+  },
+  {
+    id: 'placeholder_request',
+    severity: 'error',
+    phase: PhaseId.MANIFESTO,
+    check: draft => {
+      const found = requestsOf(draft, PLACEHOLDER_REQUESTS);
+      return found.length > 0 ? found : null;
+    },
+  },
+  {
+    // Phase 0: "Don't just say 'Fix it'."
+    id: 'vague_verb',
+    severity: 'warning',
+    phase: PhaseId.MANIFESTO,
+    check: draft => {
+      const found = matchesOf(draft, VAGUE_VERBS);
+      return found.length > 0 ? found : null;
+    },
+  },
+  {
+    // Phase 0: "Fix it by modifying X, keeping Y constant."
+    id: 'missing_constraints',
+    severity: 'warning',
+    phase: PhaseId.MANIFESTO,
+    check: draft => (CONSTRAINTS.test(draft) ? null : []),
+  },
+];
+
+/** Rule-based, offline review of a draft prompt. An empty draft has no findings. */
+export const lintPrompt = (draft: string): LintReport => {
+  if (!draft.trim()) return { score: 100, findings: [] };
+
+  const findings = RULES.flatMap((rule): LintFinding[] => {
+    const matches = rule.check(draft);
+    return matches ? [{ rule: rule.id, severity: rule.severity, phase: rule.phase, matches }] : [];
+  });
+  const penalty = findings.reduce((sum, finding) => sum + SEVERITY_PENALTY[finding.severity], 0);
+
+  return { score: Math.max(0, 100 - penalty), findings };
+};
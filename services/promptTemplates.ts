@@ -0,0 +1,187 @@
+import { PromptTemplate, TemplateRef } from "../types";
+import { isRecord } from "./planValidator";
+
+const STORAGE_KEY = 'vibe-sop.prompt-templates';
+const SELECTED_KEY = 'vibe-sop.prompt-template';
+
+// What a template can interpolate. `task` is required: a plan without the task is no plan.
+export const TEMPLATE_VARIABLES = ['task', 'language', 'rules', 'fields'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'architect',
+    version: 1,
+    name: 'Architect',
+    builtIn: true,
+    body: `You are an expert Senior Technical Architect and "Vibe Coding" specialist.
+Your goal is to break down a complex coding requirement into a strictly phased execution plan to prevent AI confusion and code rot.
+
+{{task}}
+
+{{rules}}
+{{language}}
+
+Provide a JSON response with a list of steps. For each step, include:
+{{fields}}
+`,
+  },
+  {
+    id: 'contract-first',
+    version: 1,
+    name: 'Contract first',
+    builtIn: true,
+    body: `You are a Senior Technical Architect who plans work for AI coding assistants using the Vibe Coding SOP.
+Break the requirement below into an execution plan that follows Phase 1 strictly:
+- The first steps define the contract: types, interfaces and data shapes only. No logic is written until the contract is accepted.
+- Every later step implements exactly one concern and fits one prompt in a fresh chat ("S"), or a few prompts at most ("M"). Split anything larger.
+- Every step names the exact files to paste as its Context Payload.
+- The last step is a Phase 4 review.
+
+{{task}}
+
+{{rules}}
+{{language}}
+
+Provide a JSON response with a list of steps. For each step, include:
+{{fields}}
+`,
+  },
+];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+export const templateRef = (template: PromptTemplate): TemplateRef => ({ id: template.id, version: template.version });
+
+/**
+ * Fences user input in tags it cannot close from the inside, so a task description
+ * stays data no matter what it says. Stripping repeats until nothing changes, so a
+ * tag split around another one (`</user_</user_task>task>`) cannot reassemble.
+ */
+export const delimit = (tag: string, text: string): string => {
+  const fence = new RegExp(`<\\s*/?\\s*${tag}\\s*>`, 'gi');
+  let inner = text;
+  for (let previous = ''; previous !== inner;) {
+    previous = inner;
+    inner = inner.replace(fence, '');
+  }
+  return `<${tag}>\n${inner}\n</${tag}>`;
+};
+
+/**
+ * Replaces each `{{variable}}` in one pass. Values are never scanned again, so braces
+ * inside a task cannot pull in other variables; unknown placeholders are left as written.
+ */
+export const renderTemplate = (body: string, values: Record<TemplateVariable, string>): string =>
+  body.replace(PLACEHOLDER, (placeholder, name: string) =>
+    (TEMPLATE_VARIABLES as readonly string[]).includes(name) ? values[name as TemplateVariable] : placeholder);
+
+export type TemplateIssue =
+  | { kind: 'missing_task' }
+  | { kind: 'unknown_variable'; name: string };
+
+export const templateIssues = (body: string): TemplateIssue[] => {
+  const names = Array.from(body.matchAll(PLACEHOLDER), match => match[1]);
+  const unknown = Array.from(new Set(names.filter(name => !(TEMPLATE_VARIABLES as readonly string[]).includes(name))));
+  return [
+    ...(names.includes('task') ? [] : [{ kind: 'missing_task' } as TemplateIssue]),
+    ...unknown.map((name): TemplateIssue => ({ kind: 'unknown_variable', name })),
+  ];
+};
+
+const isTemplate = (value: unknown): value is PromptTemplate => {
+  if (!isRecord(value)) return false;
+  return typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.body === 'string'
+    && typeof value.version === 'number'
+    && value.builtIn === false
+    && (value.hidden === undefined || typeof value.hidden === 'boolean');
+};
+
+/** Every saved version of the team's own templates; old versions stay so saved plans can name them. */
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (custom: PromptTemplate[]): PromptTemplate[] => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+  } catch {
+    // Quota exceeded or storage disabled: the template still works until the tab closes.
+  }
+  return custom;
+};
+
+/** The built-ins followed by the newest version of each custom template that was not deleted. */
+export const latestTemplates = (custom: PromptTemplate[]): PromptTemplate[] => {
+  const latest = new Map<string, PromptTemplate>();
+  custom.filter(template => !template.hidden).forEach(template => {
+    const current = latest.get(template.id);
+    if (!current || template.version > current.version) latest.set(template.id, template);
+  });
+  return [...BUILT_IN_TEMPLATES, ...latest.values()];
+};
+
+export const findTemplate = (custom: PromptTemplate[], ref: TemplateRef): PromptTemplate | undefined =>
+  [...BUILT_IN_TEMPLATES, ...custom].find(template => template.id === ref.id && template.version === ref.version);
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'template';
+
+/** Starts a custom template at version 1 from any other one; the id is derived from the name. */
+export const copyTemplate = (
+  custom: PromptTemplate[],
+  source: PromptTemplate,
+  name: string
+): { custom: PromptTemplate[]; saved: PromptTemplate } => {
+  // Deleted ids stay taken: their old versions still answer to them.
+  const taken = new Set([...BUILT_IN_TEMPLATES, ...custom].map(template => template.id));
+  const base = slugify(name);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  const saved: PromptTemplate = { id, version: 1, name, body: source.body, builtIn: false };
+  return { custom: persist([...custom, saved]), saved };
+};
+
+export const saveTemplateVersion = (
+  custom: PromptTemplate[],
+  template: PromptTemplate,
+  body: string
+): { custom: PromptTemplate[]; saved: PromptTemplate } => {
+  const version = Math.max(0, ...custom.filter(entry => entry.id === template.id).map(entry => entry.version)) + 1;
+  const saved: PromptTemplate = { ...template, version, body, builtIn: false };
+  return { custom: persist([...custom, saved]), saved };
+};
+
+/** Hides the template from the picker but keeps every version, so `findTemplate` still resolves saved plans. */
+export const removeTemplate = (custom: PromptTemplate[], id: string): PromptTemplate[] =>
+  persist(custom.map(template => (template.id === id ? { ...template, hidden: true } : template)));
+
+/** The template the Workshop plans with: the newest version of the saved choice, or the default. */
+export const loadSelectedTemplate = (custom: PromptTemplate[] = loadCustomTemplates()): PromptTemplate => {
+  try {
+    const id = localStorage.getItem(SELECTED_KEY);
+    return latestTemplates(custom).find(template => template.id === id) || DEFAULT_TEMPLATE;
+  } catch {
+    return DEFAULT_TEMPLATE;
+  }
+};
+
+export const saveSelectedTemplate = (id: string): void => {
+  try {
+    localStorage.setItem(SELECTED_KEY, id);
+  } catch {
+    // Storage can be unavailable (private mode, quota); the choice just won't stick.
+  }
+};
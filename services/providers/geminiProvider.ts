@@ -0,0 +1,52 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { PlannerError } from "../plannerError";
+import { LLMProvider, LLMRequest } from "./types";
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+];
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new PlannerError('blocked', `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new PlannerError('blocked', `Response blocked: ${finishReason}`);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string, model: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const requestConfig = (request: LLMRequest, signal?: AbortSignal) => ({
+    model,
+    contents: request.prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseJsonSchema: request.schema,
+      abortSignal: signal,
+    },
+  });
+
+  return {
+    id: 'gemini',
+    generateJson: async (request: LLMRequest, signal?: AbortSignal) => {
+      const response = await ai.models.generateContent(requestConfig(request, signal));
+      assertNotBlocked(response);
+      return response.text || '';
+    },
+    streamJson: async function* (request: LLMRequest, signal?: AbortSignal) {
+      const stream = await ai.models.generateContentStream(requestConfig(request, signal));
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
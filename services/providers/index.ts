@@ -0,0 +1,54 @@
+import { LLMProviderId, LLMSettings } from "../../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openaiProvider";
+import { LLMProvider } from "./types";
+
+export type { JsonSchema, LLMProvider, LLMRequest, LLMPurpose } from "./types";
+
+export const PROVIDER_DEFAULTS: Record<LLMProviderId, LLMSettings> = {
+  gemini: { provider: 'gemini', model: 'gemini-2.5-flash', baseUrl: '', apiKey: '' },
+  openai: { provider: 'openai', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', apiKey: '' },
+  ollama: { provider: 'ollama', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1', apiKey: '' },
+  mock: { provider: 'mock', model: 'mock-planner', baseUrl: '', apiKey: '' },
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = PROVIDER_DEFAULTS.gemini;
+
+// Keys typed into the Workshop win over the ones baked in at build time.
+const resolveApiKey = (settings: LLMSettings): string => {
+  if (settings.apiKey) return settings.apiKey;
+  switch (settings.provider) {
+    case 'gemini':
+      return process.env.API_KEY || '';
+    case 'openai':
+      return process.env.OPENAI_API_KEY || '';
+    default:
+      return '';
+  }
+};
+
+export const requiresApiKey = (provider: LLMProviderId): boolean =>
+  provider === 'gemini' || provider === 'openai';
+
+/**
+ * Builds the provider described by `settings`.
+ * Returns null when the provider needs an API key and none is configured.
+ */
+export const createProvider = (settings: LLMSettings): LLMProvider | null => {
+  const apiKey = resolveApiKey(settings);
+  if (requiresApiKey(settings.provider) && !apiKey) return null;
+
+  const model = settings.model || PROVIDER_DEFAULTS[settings.provider].model;
+  const baseUrl = settings.baseUrl || PROVIDER_DEFAULTS[settings.provider].baseUrl;
+
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(apiKey, model);
+    case 'openai':
+    case 'ollama':
+      return createOpenAICompatibleProvider(settings.provider, baseUrl, apiKey, model);
+    case 'mock':
+      return createMockProvider();
+  }
+};
@@ -0,0 +1,437 @@
+import {
+  ClosingDocs,
+  HiddenDependency,
+  HouseRule,
+  LegacyAnalysis,
+  LogicReview,
+  PhaseId,
+  PlannerResponse,
+  PlanStep,
+  PromptRewrite,
+  ReviewFinding,
+  SideEffect,
+  SideEffectKind
+} from "../../types";
+import { LLMProvider, LLMRequest } from "./types";
+import { Locale } from "../../i18n/locales";
+import { envVarsRead, parseReviewInput } from "../codeReview";
+
+const MAX_FEATURE_STEPS = 5;
+
+// Splits "a dashboard with websockets, auth and filtering" into its separate concerns.
+const splitConcerns = (subject: string): string[] =>
+  subject
+    .split(/,|;|，|；|、|\band\b|\bwith\b|和|以及|并且/i)
+    .map(part => part.trim().replace(/[.。]+$/, ''))
+    .filter(part => part.length > 2)
+    .slice(0, MAX_FEATURE_STEPS);
+
+const mockCopy = (lang: Locale) => lang === 'zh'
+  ? {
+      contract: {
+        title: '定义类型契约',
+        promptStrategy: '只让 AI 生成 `types.ts` 中的接口定义，不写任何逻辑。',
+        risk: 'AI 会顺手开始实现功能，导致契约未确认就产生代码。',
+        acceptanceCriteria: ['types.ts 可以编译', '接口已被人工确认'],
+      },
+      feature: (feature: string) => ({
+        title: `实现：${feature}`,
+        promptStrategy: `新开对话，粘贴 types.ts 和目标文件，只要求实现「${feature}」。`,
+        risk: '一次请求混入多个功能，AI 会简化逻辑或幻想 API。',
+        acceptanceCriteria: [`「${feature}」的 Happy Path 可用`, '构建和 Lint 通过'],
+      }),
+      review: {
+        title: '审查与收尾',
+        promptStrategy: '检查硬编码密钥和 any 类型，然后让 AI 删除 console.log 并补充 JSDoc。',
+        risk: '跳过审查，把安全问题带进生产环境。',
+        acceptanceCriteria: ['没有硬编码密钥', '没有 any 或 @ts-ignore', 'README 已更新'],
+      },
+      revised: '（重写）',
+      rewrite: (task: string, rest: string[]) => ({
+        prompt: [
+          `任务：${task}`,
+          '',
+          '上下文载荷：',
+          '```typescript',
+          '// 在这里粘贴 types.ts 和目标文件',
+          '```',
+          '',
+          '约束：',
+          '- 只修改完成这个任务所需的代码，其余保持不变。',
+          '- 不要使用占位符、TODO 或省略代码。',
+          '- 完成后说明你修改了什么以及原因。',
+        ].join('\n'),
+        changes: [
+          '加入了上下文载荷区块。',
+          '写明了约束和禁止占位符的规则。',
+          ...rest.map(item => `拆分为后续单独的请求：${item}`),
+        ],
+      }),
+      legacy: {
+        effects: {
+          network: '发起网络请求',
+          storage: '读写浏览器存储',
+          dom: '直接操作 DOM',
+          global_state: '修改全局变量',
+          io: '访问文件系统或进程',
+          timer: '注册定时器',
+          logging: '输出日志',
+          other: '其他副作用',
+        } as Record<SideEffectKind, string>,
+        line: (n: number) => `第 ${n} 行`,
+        global: '由其他脚本挂在 window 上，加载顺序错了就是 undefined。',
+        env: '运行时读取的环境变量，缺失时不会报错。',
+        jquery: '依赖全局加载的 jQuery。',
+        pin: {
+          title: '固定现有行为',
+          promptStrategy: '先不要重构。让 AI 为当前行为写特征测试（包括奇怪的边界情况），只能新增测试文件。',
+          risk: 'AI 会"顺手修复"它认为的 Bug，测试记录的就不再是真实行为。',
+          acceptanceCriteria: ['测试在未修改的旧代码上全部通过'],
+        },
+        contract: {
+          title: '引入推断出的接口',
+          promptStrategy: '把推断出的接口放进 types.ts，只给旧代码加类型标注，不改任何逻辑。',
+          risk: '为了让类型通过，AI 悄悄改了数据结构。',
+          acceptanceCriteria: ['types.ts 可以编译', '特征测试仍然通过'],
+        },
+        isolate: (effect: string) => ({
+          title: `隔离副作用：${effect}`,
+          promptStrategy: `新开对话，粘贴 types.ts 和这个文件，只把「${effect}」移到一个可注入的小函数里。`,
+          risk: '一次移动多个副作用，出错时无法定位。',
+          acceptanceCriteria: ['特征测试仍然通过', '这个副作用只在一个地方发生'],
+        }),
+        extract: {
+          title: '提取纯逻辑',
+          promptStrategy: '把不依赖副作用的计算提取成纯函数，并为其补充单元测试。',
+          risk: '提取时改变了计算顺序或默认值。',
+          acceptanceCriteria: ['纯函数有单元测试', '特征测试仍然通过'],
+        },
+      },
+      logicReview: {
+        unhandled: {
+          title: '异步失败没有处理',
+          detail: '这里的请求或 Promise 失败时没有任何 catch。请加上错误处理，并向用户显示有意义的提示。',
+        },
+        parse: {
+          title: 'JSON.parse 没有保护',
+          detail: '输入格式错误时会直接抛出异常。用 try/catch 包裹并校验解析结果。',
+        },
+        auth: {
+          title: '缺少鉴权检查',
+          detail: '直接使用了请求参数，但变更中看不到任何身份或权限校验。确认这个接口是否需要登录。',
+        },
+        summary: (n: number) => n > 0 ? `发现 ${n} 个逻辑问题，修复后再合并。` : '没有发现逻辑问题，静态检查通过后可以合并。',
+      },
+      closing: {
+        heading: '## 新功能',
+        intro: '这个功能由以下文件实现：',
+        noFiles: '（没有提供代码）',
+        configure: (names: string[]) => `配置：设置 ${names.map(name => `\`${name}\``).join('、')}。`,
+        envDescription: (name: string) => `代码在运行时读取的 ${name}。`,
+        architecture: (files: string[]) => files.length > 0
+          ? files.map(file => `- \`${file}\`：本次新增或修改。`).join('\n')
+          : '- 没有提供代码，只能根据计划记录结构变化。',
+      },
+      step: {
+        promptStrategy: '新开对话，只粘贴这一步需要的文件，并明确说明哪些内容保持不变。',
+        risk: 'AI 顺手修改了相邻步骤负责的代码。',
+        acceptanceCriteria: ['只修改了这一步负责的文件'],
+      },
+      cite: (number: number, rule: string) => `（规则 #${number}「${rule}」）`,
+    }
+  : {
+      contract: {
+        title: 'Define the type contract',
+        promptStrategy: 'Ask only for the interfaces in `types.ts`. No logic yet.',
+        risk: 'AI starts implementing features before the contract is accepted.',
+        acceptanceCriteria: ['types.ts compiles', 'Interfaces reviewed and accepted'],
+      },
+      feature: (feature: string) => ({
+        title: `Implement: ${feature}`,
+        promptStrategy: `Fresh chat. Paste types.ts + the target file and ask only for "${feature}".`,
+        risk: 'Bundling several features in one ask makes the AI simplify logic or hallucinate APIs.',
+        acceptanceCriteria: [`Happy path for "${feature}" works`, 'Build and lint pass'],
+      }),
+      review: {
+        title: 'Review and close out',
+        promptStrategy: 'Scan for hardcoded secrets and `any`, then ask the AI to remove console.logs and add JSDoc.',
+        risk: 'Skipping the review lets security issues slip into production.',
+        acceptanceCriteria: ['No hardcoded secrets', 'No `any` or `@ts-ignore`', 'README updated'],
+      },
+      revised: ' (revised)',
+      rewrite: (task: string, rest: string[]) => ({
+        prompt: [
+          `Task: ${task}`,
+          '',
+          'Context Payload:',
+          '```typescript',
+          '// Paste types.ts and the target file here',
+          '```',
+          '',
+          'Constraints:',
+          '- Only modify the code this task needs; keep everything else unchanged.',
+          '- No placeholders, TODOs or omitted code.',
+          '- When done, explain what you changed and why.',
+        ].join('\n'),
+        changes: [
+          'Added a Context Payload block.',
+          'Spelled out the constraints and the no-placeholder rule.',
+          ...rest.map(item => `Moved to a separate follow-up prompt: ${item}`),
+        ],
+      }),
+      legacy: {
+        effects: {
+          network: 'Makes network requests',
+          storage: 'Reads and writes browser storage',
+          dom: 'Manipulates the DOM directly',
+          global_state: 'Mutates global variables',
+          io: 'Touches the file system or process',
+          timer: 'Schedules timers',
+          logging: 'Writes logs',
+          other: 'Other side effect',
+        } as Record<SideEffectKind, string>,
+        line: (n: number) => `line ${n}`,
+        global: 'Attached to window by another script; undefined if the load order changes.',
+        env: 'Environment variable read at runtime; nothing fails when it is missing.',
+        jquery: 'Relies on jQuery being loaded globally.',
+        pin: {
+          title: 'Pin the current behaviour',
+          promptStrategy: 'No refactoring yet. Ask for characterization tests of what the code does today, odd edge cases included. New test files only.',
+          risk: 'The AI "fixes" what it thinks are bugs, so the tests no longer record the real behaviour.',
+          acceptanceCriteria: ['All tests pass against the untouched legacy code'],
+        },
+        contract: {
+          title: 'Introduce the inferred interface',
+          promptStrategy: 'Put the inferred interface in types.ts and only add type annotations to the legacy code. No logic changes.',
+          risk: 'The AI quietly reshapes data to make the types pass.',
+          acceptanceCriteria: ['types.ts compiles', 'Characterization tests still pass'],
+        },
+        isolate: (effect: string) => ({
+          title: `Isolate side effect: ${effect}`,
+          promptStrategy: `Fresh chat. Paste types.ts + this file and only move "${effect}" behind one small injectable function.`,
+          risk: 'Moving several side effects at once makes a regression impossible to pin down.',
+          acceptanceCriteria: ['Characterization tests still pass', 'This side effect happens in exactly one place'],
+        }),
+        extract: {
+          title: 'Extract the pure logic',
+          promptStrategy: 'Pull the calculations that need no side effects into pure functions and add unit tests for them.',
+          risk: 'The extraction changes the order of operations or a default value.',
+          acceptanceCriteria: ['Pure functions have unit tests', 'Characterization tests still pass'],
+        },
+      },
+      logicReview: {
+        unhandled: {
+          title: 'Async failure is not handled',
+          detail: 'Nothing catches a failed request or rejected promise here. Add error handling and show the user a meaningful message.',
+        },
+        parse: {
+          title: 'Unguarded JSON.parse',
+          detail: 'Malformed input throws straight through. Wrap it in try/catch and validate the parsed value.',
+        },
+        auth: {
+          title: 'No auth check',
+          detail: 'Request input is used directly, but the change shows no authentication or permission check. Confirm the endpoint may be called anonymously.',
+        },
+        summary: (n: number) => n > 0 ? `${n} logic issue${n > 1 ? 's' : ''} found. Fix before merging.` : 'No logic issues found. Merge once the static checks pass.',
+      },
+      closing: {
+        heading: '## New feature',
+        intro: 'This feature is implemented in:',
+        noFiles: '(no code provided)',
+        configure: (names: string[]) => `Configuration: set ${names.map(name => `\`${name}\``).join(', ')}.`,
+        envDescription: (name: string) => `${name}, read by the code at runtime.`,
+        architecture: (files: string[]) => files.length > 0
+          ? files.map(file => `- \`${file}\`: added or changed in this feature.`).join('\n')
+          : '- No code provided; structural changes can only be recorded from the plan.',
+      },
+      step: {
+        promptStrategy: 'Fresh chat. Paste only the files this step touches and state explicitly what must stay unchanged.',
+        risk: 'The AI also edits code that belongs to the neighbouring steps.',
+        acceptanceCriteria: ['Only the files owned by this step changed'],
+      },
+      cite: (number: number, rule: string) => ` (Rule #${number} ${rule})`,
+    };
+
+// Cites the first house rule of the step's phase, the way a real model is asked to.
+const citeRule = (step: PlanStep, houseRules: HouseRule[], lang: Locale): PlanStep => {
+  const number = houseRules.findIndex(rule => rule.phase === step.phase && rule.text.trim()) + 1;
+  if (number === 0) return step;
+  return { ...step, promptStrategy: step.promptStrategy + mockCopy(lang).cite(number, houseRules[number - 1].text.trim()) };
+};
+
+const mockPlan = (subject: string, lang: Locale, houseRules: HouseRule[] = []): PlannerResponse => {
+  const copy = mockCopy(lang);
+  const concerns = splitConcerns(subject);
+  const features = concerns.length > 0 ? concerns : [subject.trim()];
+  const featureNumbers = features.map((_, idx) => idx + 2);
+
+  const steps: PlanStep[] = [
+    { ...copy.contract, contextFiles: ['types.ts'], phase: PhaseId.DECOMPOSITION, size: 'S', dependsOn: [] },
+    ...features.map((feature): PlanStep => ({
+      ...copy.feature(feature),
+      contextFiles: ['types.ts'],
+      phase: PhaseId.ITERATION,
+      size: 'M',
+      dependsOn: [1],
+    })),
+    { ...copy.review, contextFiles: ['types.ts', 'README.md'], phase: PhaseId.REVIEW, size: 'S', dependsOn: featureNumbers },
+  ];
+  return { steps: steps.map(step => citeRule(step, houseRules, lang)) };
+};
+
+// `subject` is the title of the step being rewritten.
+const mockStep = (subject: string, lang: Locale, houseRules: HouseRule[] = []): PlanStep => {
+  const copy = mockCopy(lang);
+  return citeRule({
+    ...copy.step,
+    title: `${subject}${copy.revised}`,
+    contextFiles: ['types.ts'],
+    phase: PhaseId.ITERATION,
+    size: 'S',
+    dependsOn: [],
+  }, houseRules, lang);
+};
+
+// `subject` is the draft prompt; only its first concern survives the rewrite.
+const mockRewrite = (subject: string, lang: Locale): PromptRewrite => {
+  const [first, ...rest] = splitConcerns(subject);
+  return mockCopy(lang).rewrite(first || subject.trim(), rest);
+};
+
+const EFFECT_PATTERNS: [SideEffectKind, RegExp][] = [
+  ['network', /\b(?:fetch|axios|XMLHttpRequest|\$\.(?:ajax|get|post))\b/],
+  ['storage', /\b(?:localStorage|sessionStorage|indexedDB)\b|document\.cookie/],
+  ['dom', /\bdocument\.(?!cookie)\w+|\$\(/],
+  ['global_state', /\bwindow\.\w+\s*=(?!=)/],
+  ['io', /\b(?:fs|process)\.(?!env\b)\w+/],
+  ['timer', /\b(?:setTimeout|setInterval)\b/],
+  ['logging', /\bconsole\.\w+/],
+];
+
+const FUNCTION_PATTERN = /(?:function\s+(\w+)\s*\(([^)]*)\)|(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s*)?(?:function\s*)?\(([^)]*)\)\s*(?:=>|\{))/g;
+
+const lineOf = (source: string, index: number) => source.slice(0, index).split('\n').length;
+
+const inferInterface = (source: string): string => {
+  const declarations = [...source.matchAll(FUNCTION_PATTERN)].map(match => {
+    const params = (match[2] ?? match[4]).split(',').map(param => param.trim().replace(/\s*=.*$/, '')).filter(Boolean);
+    return `export declare function ${match[1] ?? match[3]}(${params.map(param => `${param}: unknown`).join(', ')}): unknown;`;
+  });
+  return declarations.length > 0 ? [...new Set(declarations)].join('\n') : 'export declare const legacyModule: unknown;';
+};
+
+// `subject` is the legacy source. A keyword scan, nowhere near a real analysis, but offline and stable.
+const mockAnalysis = (subject: string, lang: Locale): LegacyAnalysis => {
+  const copy = mockCopy(lang).legacy;
+  const sideEffects = EFFECT_PATTERNS.flatMap(([kind, pattern]): SideEffect[] => {
+    const match = pattern.exec(subject);
+    return match ? [{ kind, description: `${copy.effects[kind]} (\`${match[0].trim()}\`)`, location: copy.line(lineOf(subject, match.index)) }] : [];
+  });
+
+  const reads = [...subject.matchAll(/\bwindow\.(\w+)\b(?!\s*=[^=])/g)].map(match => match[1]);
+  const envVars = [...subject.matchAll(/\bprocess\.env\.(\w+)/g)].map(match => match[1]);
+  const hiddenDependencies: HiddenDependency[] = [
+    ...[...new Set(reads)].map(name => ({ name: `window.${name}`, reason: copy.global })),
+    ...[...new Set(envVars)].map(name => ({ name, reason: copy.env })),
+    ...(/\$\(|\bjQuery\b/.test(subject) ? [{ name: 'jQuery', reason: copy.jquery }] : []),
+  ];
+
+  const isolate = sideEffects.slice(0, MAX_FEATURE_STEPS).map((effect, idx): PlanStep => ({
+    ...copy.isolate(copy.effects[effect.kind]),
+    contextFiles: ['types.ts'],
+    phase: PhaseId.ITERATION,
+    size: 'S',
+    dependsOn: [idx + 2],
+  }));
+
+  return {
+    inferredInterface: inferInterface(subject),
+    sideEffects,
+    hiddenDependencies,
+    steps: [
+      { ...copy.pin, contextFiles: [], phase: PhaseId.DECOMPOSITION, size: 'M', dependsOn: [] },
+      { ...copy.contract, contextFiles: ['types.ts'], phase: PhaseId.DECOMPOSITION, size: 'S', dependsOn: [1] },
+      ...isolate,
+      { ...copy.extract, contextFiles: ['types.ts'], phase: PhaseId.ITERATION, size: 'M', dependsOn: [isolate.length + 2] },
+    ],
+  };
+};
+
+// `subject` is the diff or snippet. Three fixed heuristics standing in for a real logic review.
+const mockReview = (subject: string, lang: Locale): LogicReview => {
+  const copy = mockCopy(lang).logicReview;
+  const added = parseReviewInput(subject).filter(line => line.added);
+  const firstMatch = (pattern: RegExp) => added.find(line => pattern.test(line.text));
+  const at = (line: { file: string | null; line: number }) => ({ file: line.file || '', line: line.line });
+
+  const findings: ReviewFinding[] = [];
+  const request = firstMatch(/\bfetch\(|\baxios\.|\.then\(|\bawait\b/);
+  if (request && !/\bcatch\b/.test(subject)) findings.push({ severity: 'medium', ...copy.unhandled, ...at(request) });
+  const parse = firstMatch(/\bJSON\.parse\(/);
+  if (parse && !/\btry\b/.test(subject)) findings.push({ severity: 'medium', ...copy.parse, ...at(parse) });
+  const input = firstMatch(/\breq\.(?:body|params|query)\b/);
+  if (input && !/auth|session|permission|token|currentUser/i.test(subject)) findings.push({ severity: 'high', ...copy.auth, ...at(input) });
+
+  return { summary: copy.summary(findings.length), findings };
+};
+
+// `subject` is the final code or diff; docs are assembled from its file names and env reads.
+const mockClosing = (subject: string, lang: Locale): ClosingDocs => {
+  const copy = mockCopy(lang).closing;
+  const lines = parseReviewInput(subject);
+  const files = Array.from(new Set(lines.map(line => line.file).filter((file): file is string => file !== null)));
+  const names = envVarsRead(lines);
+
+  return {
+    readme: [
+      copy.heading,
+      '',
+      copy.intro,
+      '',
+      ...(files.length > 0 ? files.map(file => `- \`${file}\``) : [copy.noFiles]),
+      ...(names.length > 0 ? ['', copy.configure(names)] : []),
+    ].join('\n'),
+    envVars: names.map(name => ({ name, description: copy.envDescription(name), required: true, example: `your-${name.toLowerCase().replace(/_/g, '-')}` })),
+    architecture: copy.architecture(files),
+  };
+};
+
+const MOCK_CHUNK_SIZE = 24;
+const MOCK_CHUNK_DELAY_MS = 20;
+
+const mockResponse = (request: LLMRequest): string => {
+  switch (request.purpose) {
+    case 'plan':
+      return JSON.stringify(mockPlan(request.subject, request.lang, request.houseRules));
+    case 'step':
+      return JSON.stringify(mockStep(request.subject, request.lang, request.houseRules));
+    case 'rewrite':
+      return JSON.stringify(mockRewrite(request.subject, request.lang));
+    case 'reverse':
+      return JSON.stringify(mockAnalysis(request.subject, request.lang));
+    case 'review':
+      return JSON.stringify(mockReview(request.subject, request.lang));
+    case 'closing':
+      return JSON.stringify(mockClosing(request.subject, request.lang));
+  }
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// Deterministic, offline provider for developing the Workshop without network access.
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  generateJson: async (request: LLMRequest, signal?: AbortSignal) => {
+    if (signal?.aborted) throw abortError();
+    return mockResponse(request);
+  },
+  // Drip-feeds the same response in small chunks so progressive rendering can be exercised offline.
+  streamJson: async function* (request: LLMRequest, signal?: AbortSignal) {
+    const text = mockResponse(request);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      if (signal?.aborted) throw abortError();
+      await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      yield text.slice(i, i + MOCK_CHUNK_SIZE);
+    }
+  },
+});
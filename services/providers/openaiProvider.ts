@@ -0,0 +1,96 @@
+import { LLMProviderId } from "../../types";
+import { kindFromStatus, PlannerError } from "../plannerError";
+import { LLMProvider, LLMRequest } from "./types";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+const assertNotFiltered = (finishReason: string | null | undefined) => {
+  if (finishReason === 'content_filter') {
+    throw new PlannerError('blocked', 'Response blocked by the content filter');
+  }
+};
+
+// Works with anything that speaks `POST {baseUrl}/chat/completions`:
+// OpenAI itself, self-hosted gateways (LiteLLM, vLLM) and Ollama's /v1 endpoint.
+export const createOpenAICompatibleProvider = (
+  id: LLMProviderId,
+  baseUrl: string,
+  apiKey: string,
+  model: string
+): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: LLMRequest, stream: boolean, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: `Respond with a single JSON object matching this JSON Schema:\n${JSON.stringify(request.schema)}`,
+          },
+          { role: 'user', content: request.prompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+        stream,
+      }),
+    });
+
+    if (!res.ok) {
+      throw new PlannerError(kindFromStatus(res.status), `${endpoint} responded ${res.status}: ${await res.text()}`, {
+        status: res.status,
+      });
+    }
+    return res;
+  };
+
+  return {
+    id,
+    generateJson: async (request: LLMRequest, signal?: AbortSignal) => {
+      const res = await post(request, false, signal);
+      const data = (await res.json()) as ChatCompletionResponse;
+      assertNotFiltered(data.choices?.[0]?.finish_reason);
+      return data.choices?.[0]?.message?.content || '';
+    },
+    streamJson: async function* (request: LLMRequest, signal?: AbortSignal) {
+      const res = await post(request, true, signal);
+      if (!res.body) throw new PlannerError('empty', `${endpoint} returned an empty stream`);
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = '';
+
+      // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`.
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          assertNotFiltered(chunk.choices?.[0]?.finish_reason);
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) yield content;
+        }
+      }
+    },
+  };
+};
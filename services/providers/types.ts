@@ -0,0 +1,33 @@
+import { HouseRule, LLMProviderId } from "../../types";
+import { Locale } from "../../i18n/locales";
+
+// Plain JSON Schema subset understood by every backend we talk to.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export type LLMPurpose = 'plan' | 'step' | 'rewrite' | 'reverse' | 'review' | 'closing';
+
+export interface LLMRequest {
+  purpose: LLMPurpose;
+  prompt: string;
+  schema: JsonSchema;
+  lang: Locale;
+  // Raw user input the prompt was built from. Only the mock provider reads it.
+  subject: string;
+  // The house rules listed in the prompt, for the mock provider to cite.
+  houseRules?: HouseRule[];
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Both methods throw PlannerError for HTTP failures and safety blocks.
+  generateJson(request: LLMRequest, signal?: AbortSignal): Promise<string>;
+  // Yields raw text chunks as they arrive; concatenated they form the same JSON.
+  streamJson(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string>;
+}
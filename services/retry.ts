@@ -0,0 +1,74 @@
+import { PlannerError, toPlannerError } from "./plannerError";
+
+export interface RetryPolicy {
+  // Extra attempts after the first one, for retryable error kinds only.
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per-attempt limit; 0 disables it. Streams restart it on every chunk, so for them it
+  // limits the silence before the first chunk and between chunks, not the whole stream.
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 60000,
+};
+
+// "Full jitter": a random delay between 0 and the exponential ceiling.
+export const backoffDelay = (attempt: number, policy: RetryPolicy): number =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new PlannerError('cancelled', 'Cancelled during retry backoff'));
+    }, { once: true });
+  });
+
+/**
+ * Runs `attempt` under the policy's timeout and retries retryable PlannerErrors with
+ * exponential backoff. `attempt` receives a signal that fires on timeout or when the
+ * caller's `signal` aborts, and a `touch` callback that restarts the timeout when it
+ * makes progress.
+ */
+export const withRetry = async <T>(
+  attempt: (signal: AbortSignal, attemptIndex: number, touch: () => void) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+  shouldRetry: (error: PlannerError) => boolean = error => error.retryable
+): Promise<T> => {
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      if (policy.timeoutMs <= 0) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => { timedOut = true; controller.abort(); }, policy.timeoutMs);
+    };
+    touch();
+
+    try {
+      return await attempt(controller.signal, attemptIndex, touch);
+    } catch (raw) {
+      const error = timedOut
+        ? new PlannerError('timeout', `No response within ${policy.timeoutMs}ms`, { cause: raw })
+        : signal?.aborted
+          ? new PlannerError('cancelled', 'Cancelled', { cause: raw })
+          : toPlannerError(raw);
+
+      if (attemptIndex >= policy.maxRetries || !shouldRetry(error)) throw error;
+      await sleep(backoffDelay(attemptIndex, policy), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
@@ -0,0 +1,154 @@
+import { AISession, InteractionOutcome, SessionInteraction } from "../types";
+import { FIVE_MINUTE_RULE_MS } from "./stepProgress";
+import { createId } from "./ids";
+
+const STORAGE_KEY = 'vibe-sop.sessions';
+const ACTIVE_KEY = 'vibe-sop.active-session';
+
+const OUTCOMES: InteractionOutcome[] = ['accepted', 'rejected', 'reset'];
+
+// Phase 2: "Deviation Detected? -> STOP." Three misses in a row is a confused chat.
+export const MAX_CONSECUTIVE_REJECTIONS = 3;
+
+// A chat this many prompts deep carries enough baggage to count as fully drifted.
+const FULL_DRIFT_DEPTH = 10;
+
+const isInteraction = (value: unknown): value is SessionInteraction => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Partial<SessionInteraction>;
+  return typeof entry.id === 'string'
+    && typeof entry.at === 'number'
+    && typeof entry.prompt === 'string'
+    && OUTCOMES.includes(entry.outcome as InteractionOutcome)
+    && typeof entry.restarted === 'boolean'
+    && typeof entry.durationMs === 'number';
+};
+
+const isSession = (value: unknown): value is AISession => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Partial<AISession>;
+  return typeof entry.id === 'string'
+    && typeof entry.name === 'string'
+    && typeof entry.startedAt === 'number'
+    && Array.isArray(entry.interactions)
+    && entry.interactions.every(isInteraction);
+};
+
+/** Reads logged sessions, silently dropping entries that no longer match the schema. */
+export const loadSessions = (): AISession[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isSession) : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (sessions: AISession[]): AISession[] => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    // Quota exceeded or storage disabled: keep the in-memory list so the session still works.
+  }
+  return sessions;
+};
+
+export const addSession = (sessions: AISession[], name: string, now = Date.now()): { sessions: AISession[]; saved: AISession } => {
+  const saved: AISession = { id: createId(), name, startedAt: now, interactions: [] };
+  return { sessions: persist([saved, ...sessions]), saved };
+};
+
+export const removeSession = (sessions: AISession[], id: string): AISession[] =>
+  persist(sessions.filter(session => session.id !== id));
+
+export const logInteraction = (
+  sessions: AISession[],
+  sessionId: string,
+  interaction: Omit<SessionInteraction, 'id'>
+): AISession[] =>
+  persist(sessions.map(session =>
+    session.id === sessionId
+      ? { ...session, interactions: [...session.interactions, { ...interaction, id: createId() }] }
+      : session));
+
+export const removeInteraction = (sessions: AISession[], sessionId: string, interactionId: string): AISession[] =>
+  persist(sessions.map(session =>
+    session.id === sessionId
+      ? { ...session, interactions: session.interactions.filter(entry => entry.id !== interactionId) }
+      : session));
+
+export const loadActiveSessionId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveSessionId = (id: string | null): void => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_KEY, id);
+    else localStorage.removeItem(ACTIVE_KEY);
+  } catch {
+    // Not critical: the logger just opens the newest session next time.
+  }
+};
+
+export interface EntropyPoint {
+  // 1-based interaction number.
+  turn: number;
+  chaos: number;
+  vibe: number;
+}
+
+/**
+ * Per-interaction metrics, both 0-100.
+ * - chaos: recent rejections and resets (a moving average that halves with every prompt),
+ *   mixed with how deep the current chat is since the last restart.
+ * - vibe: share of prompts accepted so far.
+ */
+export const entropyPoints = (session: AISession): EntropyPoint[] => {
+  let failure = 0;
+  let depth = 0;
+  let accepted = 0;
+  return session.interactions.map((interaction, idx) => {
+    failure = failure / 2 + (interaction.outcome === 'accepted' ? 0 : 0.5);
+    depth = interaction.restarted ? 1 : depth + 1;
+    if (interaction.outcome === 'accepted') accepted++;
+    const drift = Math.min(1, (depth - 1) / FULL_DRIFT_DEPTH);
+    return {
+      turn: idx + 1,
+      chaos: Math.round(100 * Math.min(1, 0.7 * failure + 0.3 * drift)),
+      vibe: Math.round((100 * accepted) / (idx + 1)),
+    };
+  });
+};
+
+export type RestartReason = 'five_minutes' | 'rejections';
+
+export interface RestartAdvice {
+  reason: RestartReason;
+  // Consecutive misses, or time spent on them, since the last accepted answer or restart.
+  misses: number;
+  timeSpentMs: number;
+}
+
+/** Why the current chat should be restarted, if it should; one entry per rule broken. */
+export const restartAdvice = (session: AISession): RestartAdvice[] => {
+  let misses = 0;
+  let timeSpentMs = 0;
+  for (let i = session.interactions.length - 1; i >= 0; i--) {
+    const interaction = session.interactions[i];
+    if (interaction.outcome === 'accepted') break;
+    misses++;
+    timeSpentMs += interaction.durationMs;
+    if (interaction.restarted) break;
+  }
+
+  const advice: RestartAdvice[] = [];
+  if (timeSpentMs > FIVE_MINUTE_RULE_MS) advice.push({ reason: 'five_minutes', misses, timeSpentMs });
+  if (misses >= MAX_CONSECUTIVE_REJECTIONS) advice.push({ reason: 'rejections', misses, timeSpentMs });
+  return advice;
+};
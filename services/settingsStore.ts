@@ -0,0 +1,34 @@
+import { LLMProviderId, LLMSettings } from "../types";
+import { DEFAULT_LLM_SETTINGS, PROVIDER_DEFAULTS } from "./providers";
+
+const STORAGE_KEY = 'vibe-sop.llm-settings';
+
+// Own keys only: `in` would also accept inherited names like "constructor" from a tampered entry.
+export const isProviderId = (value: unknown): value is LLMProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDER_DEFAULTS, value);
+
+export const loadLLMSettings = (): LLMSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_LLM_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<LLMSettings>;
+    if (!isProviderId(saved.provider)) return DEFAULT_LLM_SETTINGS;
+    return {
+      ...PROVIDER_DEFAULTS[saved.provider],
+      model: typeof saved.model === 'string' ? saved.model : PROVIDER_DEFAULTS[saved.provider].model,
+      baseUrl: typeof saved.baseUrl === 'string' ? saved.baseUrl : PROVIDER_DEFAULTS[saved.provider].baseUrl,
+    };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+// The API key is deliberately left out: it lives only for the current tab.
+export const saveLLMSettings = (settings: LLMSettings): void => {
+  try {
+    const { provider, model, baseUrl } = settings;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ provider, model, baseUrl }));
+  } catch {
+    // Storage can be unavailable (private mode, quota); settings just won't stick.
+  }
+};
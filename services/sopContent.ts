@@ -0,0 +1,259 @@
+import { PhaseId, SOPExample, SOPIconName, SOPPhase, ValidationIssue } from "../types";
+import { describe, isRecord, validateStringList, ValidationResult } from "./planValidator";
+import { Locale } from "../i18n/locales";
+
+// The complete locale; other locales may omit entries and fall back to it.
+export const BASE_LOCALE: Locale = 'en';
+
+export type SOPPhaseContent = Omit<SOPPhase, 'id' | 'untranslated'>;
+// A parsed content file. Only the base locale is guaranteed to have every phase and field.
+export type SOPContent = Partial<Record<PhaseId, Partial<SOPPhaseContent>>>;
+
+// Content files, relative to the project root. Checked by the build (see vite.config.ts).
+export const SOP_CONTENT_FILES: Record<Locale, string> = {
+  en: 'content/phases.en.json',
+  zh: 'content/phases.zh.json',
+};
+
+export const SOP_ICON_NAMES: SOPIconName[] = [
+  'BrainCircuit', 'Layers', 'Terminal', 'GitCommit', 'SearchCheck', 'ArchiveRestore', 'Wrench', 'ScrollText', 'ThumbsUp', 'ThumbsDown',
+];
+
+// Display order. Content files are keyed by `PhaseId`, so their key order does not matter.
+export const PHASE_ORDER: PhaseId[] = Object.values(PhaseId);
+
+const TEXT_FIELDS = ['title', 'subtitle', 'content'] as const;
+const LIST_FIELDS = ['standardOps', 'dos', 'donts'] as const;
+const EXAMPLE_FIELDS = ['positiveExample', 'negativeExample'] as const;
+const PHASE_FIELDS: string[] = [...TEXT_FIELDS, ...LIST_FIELDS, ...EXAMPLE_FIELDS, 'icon'];
+const EXAMPLE_KEYS = ['type', 'content', 'annotation', 'label', 'icon'];
+
+// In a translation every field is optional; anything left out falls back to the base locale.
+const validateText = (value: unknown, path: string, required: boolean): ValidationIssue[] => {
+  if (value === undefined) return required ? [{ path, message: 'is required' }] : [];
+  if (typeof value !== 'string') return [{ path, message: `expected a string, got ${describe(value)}` }];
+  return value.trim() ? [] : [{ path, message: 'must not be empty' }];
+};
+
+const validateIcon = (value: unknown, path: string, required: boolean): ValidationIssue[] => {
+  if (value === undefined && !required) return [];
+  return SOP_ICON_NAMES.includes(value as SOPIconName)
+    ? []
+    : [{ path, message: `unknown icon ${JSON.stringify(value)}, expected one of ${SOP_ICON_NAMES.join(', ')}` }];
+};
+
+// Typos in hand-written content ("standardOp", "anotation") would otherwise be silently ignored.
+const unknownKeys = (value: Record<string, unknown>, allowed: string[], path: string): ValidationIssue[] =>
+  Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .map(key => ({ path: `${path}.${key}`, message: `unknown field, expected one of ${allowed.join(', ')}` }));
+
+const validateExample = (value: unknown, path: string, complete: boolean): ValidationIssue[] => {
+  if (!isRecord(value)) return [{ path, message: `expected an object, got ${describe(value)}` }];
+  return [
+    ...(value.type === 'code' || value.type === 'text' || (value.type === undefined && !complete)
+      ? []
+      : [{ path: `${path}.type`, message: 'expected "code" or "text"' }]),
+    ...validateText(value.content, `${path}.content`, complete),
+    ...validateText(value.annotation, `${path}.annotation`, complete),
+    ...validateText(value.label, `${path}.label`, false),
+    ...validateIcon(value.icon, `${path}.icon`, false),
+    ...unknownKeys(value, EXAMPLE_KEYS, path),
+  ];
+};
+
+const validatePhase = (value: unknown, path: string, complete: boolean): ValidationIssue[] => {
+  if (!isRecord(value)) return [{ path, message: `expected an object, got ${describe(value)}` }];
+  return [
+    ...TEXT_FIELDS.flatMap(field => validateText(value[field], `${path}.${field}`, complete)),
+    ...validateIcon(value.icon, `${path}.icon`, complete),
+    ...LIST_FIELDS.flatMap(field => value[field] !== undefined
+      ? validateStringList(value[field], `${path}.${field}`)
+      : complete && field !== 'standardOps' ? [{ path: `${path}.${field}`, message: 'is required' }] : []),
+    ...EXAMPLE_FIELDS.flatMap(field => value[field] === undefined ? [] : validateExample(value[field], `${path}.${field}`, complete)),
+    ...unknownKeys(value, PHASE_FIELDS, path),
+  ];
+};
+
+/**
+ * Checks one locale's content file: an object keyed by `PhaseId`. A `complete` file (the
+ * base locale) must have every phase and required field; a translation may leave gaps.
+ */
+export const validateSopContent = (value: unknown, source = '$', complete = true): ValidationResult<SOPContent> => {
+  if (!isRecord(value)) {
+    return { value: null, issues: [{ path: source, message: `expected an object keyed by phase id, got ${describe(value)}` }] };
+  }
+
+  const issues: ValidationIssue[] = [
+    ...PHASE_ORDER.flatMap(id => value[id] !== undefined
+      ? validatePhase(value[id], `${source}.${id}`, complete)
+      : complete ? [{ path: `${source}.${id}`, message: 'is required' }] : []),
+    ...Object.keys(value)
+      .filter(key => !PHASE_ORDER.includes(key as PhaseId))
+      .map(key => ({ path: `${source}.${key}`, message: `unknown phase id, expected one of ${PHASE_ORDER.join(', ')}` })),
+  ];
+
+  return issues.length > 0 ? { value: null, issues } : { value: value as SOPContent, issues };
+};
+
+export const parseSopContent = (text: string, source = '$', complete = true): ValidationResult<SOPContent> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { value: null, issues: [{ path: source, message: `invalid JSON (${(error as Error).message})` }] };
+  }
+  return validateSopContent(parsed, source, complete);
+};
+
+const countOf = (list: string[] | undefined) => list?.length ?? 0;
+
+/** Reports, per phase, what `translated` is missing or has out of step with the base locale. */
+export const checkLocaleParity = (base: SOPContent, translated: SOPContent, locale: string): ValidationIssue[] =>
+  PHASE_ORDER.flatMap(id => {
+    const path = `${locale}.${id}`;
+    const basePhase = base[id] || {};
+    const phase = translated[id];
+    if (!phase) return [{ path, message: `is missing, ${BASE_LOCALE} has this phase` }];
+
+    const issues: ValidationIssue[] = [];
+    for (const field of TEXT_FIELDS) {
+      if (basePhase[field] !== undefined && phase[field] === undefined) {
+        issues.push({ path: `${path}.${field}`, message: 'is missing' });
+      }
+    }
+    for (const field of LIST_FIELDS) {
+      if (countOf(phase[field]) !== countOf(basePhase[field])) {
+        issues.push({
+          path: `${path}.${field}`,
+          message: `has ${countOf(phase[field])} entries, ${BASE_LOCALE} has ${countOf(basePhase[field])}`,
+        });
+      }
+    }
+    for (const field of EXAMPLE_FIELDS) {
+      const baseExample = basePhase[field];
+      const example = phase[field];
+      if (!baseExample !== !example) {
+        issues.push({ path: `${path}.${field}`, message: example ? `has no ${BASE_LOCALE} counterpart` : 'is missing' });
+      } else if (baseExample && example) {
+        if (example.type !== undefined && example.type !== baseExample.type) {
+          issues.push({ path: `${path}.${field}.type`, message: `is "${example.type}", ${BASE_LOCALE} has "${baseExample.type}"` });
+        }
+        for (const key of ['content', 'annotation', 'label'] as const) {
+          if (baseExample[key] !== undefined && example[key] === undefined) {
+            issues.push({ path: `${path}.${field}.${key}`, message: 'is missing' });
+          }
+        }
+      }
+    }
+    return issues;
+  });
+
+const CJK = /[\u3400-\u9fff\uf900-\ufaff\u3000-\u303f\uff00-\uffef]/;
+
+const phaseStrings = (phase: Partial<SOPPhaseContent>): [string, string][] => [
+  ...TEXT_FIELDS.filter(field => phase[field] !== undefined).map((field): [string, string] => [field, phase[field]]),
+  ...LIST_FIELDS.flatMap(field => (phase[field] || []).map((item, idx): [string, string] => [`${field}[${idx}]`, item])),
+  ...EXAMPLE_FIELDS.flatMap(field => {
+    const example = phase[field];
+    if (!example) return [];
+    return (['content', 'annotation', 'label'] as const)
+      .filter(key => example[key] !== undefined)
+      .map((key): [string, string] => [`${field}.${key}`, example[key]]);
+  }),
+];
+
+/** Flags Chinese text left behind in English content, e.g. a translated line inside an English example. */
+export const findMixedLanguage = (content: SOPContent, locale: string): ValidationIssue[] =>
+  PHASE_ORDER.flatMap(id => phaseStrings(content[id] || {})
+    .filter(([, text]) => CJK.test(text))
+    .map(([key]) => ({ path: `${locale}.${id}.${key}`, message: 'contains Chinese text' })));
+
+export interface SOPContentReport {
+  // Malformed files; the app cannot load these.
+  errors: ValidationIssue[];
+  // Translation gaps and mixed-language text; the app still works, with English fallbacks.
+  parity: ValidationIssue[];
+}
+
+/** Full check of the raw content files, as run by the build. */
+export const checkSopContent = (files: Record<Locale, string>): SOPContentReport => {
+  const base = parseSopContent(files[BASE_LOCALE], BASE_LOCALE);
+  const translations = (Object.keys(files) as Locale[])
+    .filter(locale => locale !== BASE_LOCALE)
+    .map(locale => ({ locale, result: parseSopContent(files[locale], locale, false) }));
+
+  const errors = [...base.issues, ...translations.flatMap(({ result }) => result.issues)];
+  if (!base.value) return { errors, parity: [] };
+
+  return {
+    errors,
+    parity: [
+      ...findMixedLanguage(base.value, BASE_LOCALE),
+      ...translations.flatMap(({ locale, result }) => result.value ? checkLocaleParity(base.value, result.value, locale) : []),
+    ],
+  };
+};
+
+const mergeList = (key: string, base: string[] | undefined, translated: string[] | undefined, untranslated: string[]) => {
+  if (!base) return translated;
+  const merged = [...(translated || [])];
+  base.forEach((item, idx) => {
+    if (idx >= merged.length) {
+      merged.push(item);
+      untranslated.push(`${key}.${idx}`);
+    }
+  });
+  return merged;
+};
+
+const mergeExample = (key: string, base: SOPExample | undefined, translated: Partial<SOPExample> | undefined, untranslated: string[]) => {
+  if (!base) return translated as SOPExample | undefined;
+  if (!translated) {
+    untranslated.push(key);
+    return base;
+  }
+  for (const field of ['content', 'annotation', 'label'] as const) {
+    if (base[field] !== undefined && translated[field] === undefined) untranslated.push(`${key}.${field}`);
+  }
+  return { ...base, ...translated };
+};
+
+/**
+ * Phases for display, in `PHASE_ORDER`. With `translated`, every missing phase, field or
+ * list entry falls back to the base locale and is listed in the phase's `untranslated`.
+ */
+export const localizePhases = (base: SOPContent, translated?: SOPContent): SOPPhase[] =>
+  PHASE_ORDER.map(id => {
+    const basePhase = base[id] as SOPPhaseContent;
+    if (!translated) return { ...basePhase, id };
+
+    const phase = translated[id] || {};
+    const untranslated: string[] = [];
+    const text = (field: typeof TEXT_FIELDS[number]) => {
+      if (phase[field] !== undefined) return phase[field];
+      untranslated.push(field);
+      return basePhase[field];
+    };
+
+    return {
+      id,
+      title: text('title'),
+      subtitle: text('subtitle'),
+      content: text('content'),
+      icon: phase.icon || basePhase.icon,
+      standardOps: mergeList('standardOps', basePhase.standardOps, phase.standardOps, untranslated),
+      dos: mergeList('dos', basePhase.dos, phase.dos, untranslated),
+      donts: mergeList('donts', basePhase.donts, phase.donts, untranslated),
+      positiveExample: mergeExample('positiveExample', basePhase.positiveExample, phase.positiveExample, untranslated),
+      negativeExample: mergeExample('negativeExample', basePhase.negativeExample, phase.negativeExample, untranslated),
+      untranslated,
+    };
+  });
+
+/**
+ * True when `key` fell back to the base locale: `title`, `dos.2`, a whole `positiveExample`,
+ * or one field of a translated example such as `positiveExample.annotation`.
+ */
+export const isUntranslated = (phase: SOPPhase, key: string): boolean =>
+  Boolean(phase.untranslated?.includes(key));
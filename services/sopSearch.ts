@@ -0,0 +1,163 @@
+import { PhaseId, SOPPhase } from "../types";
+
+export type SearchField =
+  | 'title'
+  | 'subtitle'
+  | 'content'
+  | 'standardOps'
+  | 'dos'
+  | 'donts'
+  | 'positiveExample'
+  | 'negativeExample';
+
+export interface SearchEntry {
+  phaseId: PhaseId;
+  phaseTitle: string;
+  field: SearchField;
+  // `data-sop-anchor` of the element to scroll to, e.g. `dos.2` or `positiveExample`.
+  anchor: string;
+  text: string;
+  tokens: string[];
+}
+
+export interface SearchHit {
+  entry: SearchEntry;
+  score: number;
+  // Half-open [start, end) ranges in `entry.text` to highlight.
+  ranges: [number, number][];
+}
+
+const FIELD_WEIGHT: Record<SearchField, number> = {
+  title: 3,
+  subtitle: 2,
+  standardOps: 1.5,
+  dos: 1.5,
+  donts: 1.5,
+  positiveExample: 1,
+  negativeExample: 1,
+  content: 1,
+};
+
+const CJK_RUN = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Chinese has no spaces between words, so CJK runs are indexed as overlapping character
+ * bigrams ("上下文" -> "上下", "下文"). A query then matches regardless of how a
+ * dictionary would segment it. Everything else is split into lowercase words.
+ */
+export const tokenize = (text: string): string[] => {
+  const lower = text.toLowerCase();
+  const tokens: string[] = [];
+  for (const run of lower.match(CJK_RUN) || []) {
+    if (run.length === 1) tokens.push(run);
+    for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+  }
+  tokens.push(...(lower.replace(CJK_RUN, ' ').match(WORD) || []));
+  return tokens;
+};
+
+const isCjk = (token: string) => /^[\u3400-\u9fff\uf900-\ufaff]+$/.test(token);
+
+export const buildSearchIndex = (phases: SOPPhase[]): SearchEntry[] =>
+  phases.flatMap(phase => {
+    const entry = (field: SearchField, anchor: string, text: string): SearchEntry =>
+      ({ phaseId: phase.id, phaseTitle: phase.title, field, anchor, text, tokens: tokenize(text) });
+    const list = (field: 'standardOps' | 'dos' | 'donts') =>
+      (phase[field] || []).map((text, idx) => entry(field, `${field}.${idx}`, text));
+    const example = (field: 'positiveExample' | 'negativeExample') => {
+      const value = phase[field];
+      return value ? [entry(field, field, `${value.content}\n${value.annotation}`)] : [];
+    };
+
+    // The Workshop page shows the planner instead of its content text.
+    if (phase.id === PhaseId.TOOLKIT) return [entry('title', 'title', phase.title), entry('subtitle', 'subtitle', phase.subtitle)];
+
+    return [
+      entry('title', 'title', phase.title),
+      entry('subtitle', 'subtitle', phase.subtitle),
+      entry('content', 'content', phase.content),
+      ...list('standardOps'),
+      ...list('dos'),
+      ...list('donts'),
+      ...example('positiveExample'),
+      ...example('negativeExample'),
+    ];
+  });
+
+const matchRanges = (text: string, needles: string[]): [number, number][] => {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const needle of needles) {
+    for (let at = lower.indexOf(needle); at !== -1; at = lower.indexOf(needle, at + needle.length)) {
+      ranges.push([at, at + needle.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+};
+
+/**
+ * Every query token must match: CJK bigrams exactly, a lone CJK character anywhere in an
+ * indexed bigram (it is the end of "下文" as much as the start of "文档"), words as a
+ * prefix of an indexed word.
+ */
+export const searchIndex = (index: SearchEntry[], query: string, limit = 20): SearchHit[] => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+  const phrase = query.trim().toLowerCase();
+  // Highlight whole CJK runs and words from the query rather than the bigrams.
+  const needles = [...(phrase.match(CJK_RUN) || []), ...(phrase.replace(CJK_RUN, ' ').match(WORD) || [])];
+
+  const hits: SearchHit[] = [];
+  for (const entry of index) {
+    let score = 0;
+    const matchedAll = queryTokens.every(token => {
+      if (entry.tokens.includes(token)) {
+        score += 2;
+        return true;
+      }
+      const partial = isCjk(token)
+        ? token.length === 1 && entry.tokens.some(candidate => isCjk(candidate) && candidate.includes(token))
+        : entry.tokens.some(candidate => candidate.startsWith(token));
+      if (partial) {
+        score += 1;
+        return true;
+      }
+      return false;
+    });
+    if (!matchedAll) continue;
+
+    if (entry.text.toLowerCase().includes(phrase)) score += 3;
+    hits.push({ entry, score: score * FIELD_WEIGHT[entry.field], ranges: matchRanges(entry.text, needles) });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+/** Cuts long text down to a window around the first match, shifting the ranges to fit. */
+export const snippet = (hit: SearchHit): { text: string; ranges: [number, number][] } => {
+  const { text } = hit.entry;
+  if (text.length <= SNIPPET_LENGTH) return { text, ranges: hit.ranges };
+
+  const first = hit.ranges[0]?.[0] ?? 0;
+  const start = Math.max(0, first - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    ranges: hit.ranges
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]): [number, number] => [Math.max(from, start) + offset, Math.min(to, end) + offset]),
+  };
+};
@@ -0,0 +1,88 @@
+import { PlanStep, StepProgress, StepStatus } from "../types";
+
+// Phase 0: "If a chat session loops on a bug for >5 mins, STOP."
+export const FIVE_MINUTE_RULE_MS = 5 * 60 * 1000;
+
+const STATUSES: StepStatus[] = ['todo', 'in_progress', 'done', 'failed', 'skipped'];
+
+/** Progress of a step, defaulting to a fresh `todo` for steps that never had any. */
+export const getProgress = (step: PlanStep): StepProgress => {
+  const progress = step.progress;
+  return {
+    status: progress && STATUSES.includes(progress.status) ? progress.status : 'todo',
+    notes: typeof progress?.notes === 'string' ? progress.notes : '',
+    timeSpentMs: typeof progress?.timeSpentMs === 'number' ? progress.timeSpentMs : 0,
+    startedAt: typeof progress?.startedAt === 'number' ? progress.startedAt : undefined,
+  };
+};
+
+export const elapsedMs = (progress: StepProgress, now = Date.now()): number =>
+  progress.timeSpentMs + (progress.startedAt ? now - progress.startedAt : 0);
+
+export const startTimer = (progress: StepProgress, now = Date.now()): StepProgress =>
+  progress.startedAt ? progress : { ...progress, startedAt: now };
+
+export const stopTimer = (progress: StepProgress, now = Date.now()): StepProgress =>
+  progress.startedAt ? { ...progress, timeSpentMs: elapsedMs(progress, now), startedAt: undefined } : progress;
+
+/** Starting work starts the clock; any other status stops it. */
+export const withStatus = (progress: StepProgress, status: StepStatus, now = Date.now()): StepProgress =>
+  status === 'in_progress'
+    ? startTimer({ ...progress, status }, now)
+    : stopTimer({ ...progress, status }, now);
+
+export const exceedsFiveMinuteRule = (progress: StepProgress, now = Date.now()): boolean =>
+  progress.status === 'in_progress' && elapsedMs(progress, now) > FIVE_MINUTE_RULE_MS;
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export interface ProgressSummary {
+  total: number;
+  counts: Record<StepStatus, number>;
+  // Share of non-skipped steps that are done, 0-100.
+  percent: number;
+  timeSpentMs: number;
+}
+
+export const summarizeProgress = (steps: PlanStep[], now = Date.now()): ProgressSummary => {
+  const counts: Record<StepStatus, number> = { todo: 0, in_progress: 0, done: 0, failed: 0, skipped: 0 };
+  let timeSpentMs = 0;
+  for (const step of steps) {
+    const progress = getProgress(step);
+    counts[progress.status]++;
+    timeSpentMs += elapsedMs(progress, now);
+  }
+  const actionable = steps.length - counts.skipped;
+  return {
+    total: steps.length,
+    counts,
+    percent: actionable > 0 ? Math.round((counts.done / actionable) * 100) : 100,
+    timeSpentMs,
+  };
+};
+
+const isSettled = (step: PlanStep | undefined) => {
+  const status = step ? getProgress(step).status : 'done';
+  return status === 'done' || status === 'skipped';
+};
+
+/** Every step is done or skipped: the plan is ready for Phase 5. */
+export const isPlanComplete = (steps: PlanStep[]): boolean => steps.length > 0 && steps.every(isSettled);
+
+/**
+ * The step to work on now: one already in progress, otherwise the first open step whose
+ * dependencies are settled. Null when every step is done or skipped, or all are blocked.
+ */
+export const nextStepIndex = (steps: PlanStep[]): number | null => {
+  const running = steps.findIndex(step => getProgress(step).status === 'in_progress');
+  if (running >= 0) return running;
+  const ready = steps.findIndex(step =>
+    !isSettled(step) && (step.dependsOn || []).every(dep => isSettled(steps[dep - 1])));
+  return ready >= 0 ? ready : null;
+};
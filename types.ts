@@ -1,4 +1,4 @@
-import React from 'react';
+import { Locale } from './i18n/locales';
 
 export enum PhaseId {
   MANIFESTO = 'manifesto',
@@ -10,31 +10,290 @@ export enum PhaseId {
   TOOLKIT = 'toolkit'
 }
 
+// Icons are referenced by name from the content files; see components/SOPIcon.tsx.
+export type SOPIconName =
+  | 'BrainCircuit'
+  | 'Layers'
+  | 'Terminal'
+  | 'GitCommit'
+  | 'SearchCheck'
+  | 'ArchiveRestore'
+  | 'Wrench'
+  | 'ScrollText'
+  | 'ThumbsUp'
+  | 'ThumbsDown';
+
+export interface SOPExample {
+  type: 'code' | 'text';
+  content: string;
+  annotation: string;
+  // Optional header overrides, e.g. Phase 1's "The Golden Template".
+  label?: string;
+  icon?: SOPIconName;
+}
+
 export interface SOPPhase {
   id: PhaseId;
   title: string;
   subtitle: string;
-  icon: React.ReactNode;
+  icon: SOPIconName;
   content: string;
   standardOps?: string[];
   dos: string[];
   donts: string[];
-  positiveExample?: {
-    type: 'code' | 'text';
-    content: string;
-    annotation: string;
-  };
-  negativeExample?: {
-    type: 'code' | 'text';
-    content: string;
-    annotation: string;
-  };
+  positiveExample?: SOPExample;
+  negativeExample?: SOPExample;
+  // Content keys shown in English because the active locale lacks them, e.g. `title`, `dos.2`.
+  untranslated?: string[];
+}
+
+export type StepStatus = 'todo' | 'in_progress' | 'done' | 'failed' | 'skipped';
+
+export interface StepProgress {
+  status: StepStatus;
+  // Free text: commit SHA, what went wrong, why it was skipped...
+  notes: string;
+  // Working time accumulated by the step timer (Phase 0's 5-minute rule).
+  timeSpentMs: number;
+  // Set while the timer is running.
+  startedAt?: number;
+}
+
+export type InteractionOutcome = 'accepted' | 'rejected' | 'reset';
+
+// One prompt/answer round trip, as logged in the Session Logger.
+export interface SessionInteraction {
+  id: string;
+  at: number;
+  prompt: string;
+  outcome: InteractionOutcome;
+  // True when this prompt opened a fresh chat (Phase 2's restart).
+  restarted: boolean;
+  durationMs: number;
+}
+
+export interface AISession {
+  id: string;
+  name: string;
+  startedAt: number;
+  interactions: SessionInteraction[];
+}
+
+// One numbered rule of the team's "Golden System Instruction". Its number is its position.
+export interface HouseRule {
+  // Kept across edits and versions, so a diff can tell an edited rule from a new one.
+  id: string;
+  text: string;
+  phase: PhaseId;
+}
+
+export interface RuleSetVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  rules: HouseRule[];
+}
+
+export interface HouseRules {
+  // The working copy; Rule #N is rules[N - 1].
+  rules: HouseRule[];
+  // Named snapshots, newest first.
+  versions: RuleSetVersion[];
+  // When false the Planner leaves the rules out of its prompt.
+  enabled: boolean;
+}
+
+export type StepSize = 'S' | 'M' | 'L';
+
+export interface PlanStep {
+  title: string;
+  promptStrategy: string;
+  risk: string;
+  // The fields below were added later; plans saved before them still load without.
+  acceptanceCriteria?: string[];
+  // Files and types to paste as this step's Context Payload.
+  contextFiles?: string[];
+  phase?: PhaseId;
+  size?: StepSize;
+  // 1-based numbers of earlier steps that must be finished first.
+  dependsOn?: number[];
+  // Client-side execution state; never requested from the model.
+  progress?: StepProgress;
 }
 
 export interface PlannerResponse {
-  steps: {
-    title: string;
-    promptStrategy: string;
-    risk: string;
-  }[];
-}
\ No newline at end of file
+  steps: PlanStep[];
+}
+
+// AI rewrite of a draft prompt from the Prompt Linter.
+export interface PromptRewrite {
+  prompt: string;
+  // One line per change, e.g. "Split the auth work into its own prompt".
+  changes: string[];
+}
+
+export type SideEffectKind = 'network' | 'storage' | 'dom' | 'global_state' | 'io' | 'timer' | 'logging' | 'other';
+
+export interface SideEffect {
+  kind: SideEffectKind;
+  description: string;
+  // Where it happens, e.g. "saveCart()" or "line 42".
+  location: string;
+}
+
+// Something a legacy file relies on without importing it: a global, an env var, a load order...
+export interface HiddenDependency {
+  name: string;
+  reason: string;
+}
+
+// Reverse Engineer mode (Phase 1, Brownfield). `steps` is the safe refactor plan, so the
+// analysis is tracked, edited, saved and exported like any other blueprint.
+export interface LegacyAnalysis extends PlannerResponse {
+  // TypeScript declarations for what the file does today, quirks included.
+  inferredInterface: string;
+  sideEffects: SideEffect[];
+  hiddenDependencies: HiddenDependency[];
+}
+
+export type ReviewSeverity = 'high' | 'medium' | 'low';
+
+// One problem from the AI logic review of a diff (Phase 4).
+export interface ReviewFinding {
+  severity: ReviewSeverity;
+  title: string;
+  detail: string;
+  // Empty for a pasted snippet.
+  file: string;
+  // Line in the new version of the file; 0 when the finding is about the change as a whole.
+  line: number;
+}
+
+export interface LogicReview {
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+export interface EnvVarDoc {
+  name: string;
+  description: string;
+  required: boolean;
+  // A safe placeholder, never a real value.
+  example: string;
+}
+
+// Phase 5 drafts for a finished plan, for the user to review before committing them.
+export interface ClosingDocs {
+  // Markdown section to add to README.md.
+  readme: string;
+  envVars: EnvVarDoc[];
+  // Markdown describing what changes in ARCHITECTURE.md.
+  architecture: string;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface ValidationIssue {
+  // JSON path of the offending field, e.g. "steps[2].risk".
+  path: string;
+  message: string;
+}
+
+export type PlannerErrorKind =
+  | 'missing_key'
+  | 'auth'
+  | 'quota'
+  | 'timeout'
+  | 'blocked'
+  | 'empty'
+  | 'invalid_output'
+  | 'network'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+export type PlanResult =
+  | { status: 'success'; plan: PlannerResponse }
+  | { status: 'repaired'; plan: PlannerResponse; attempts: number; issues: ValidationIssue[] }
+  | { status: 'failed'; kind: PlannerErrorKind; reasons: string[]; issues: ValidationIssue[] };
+
+export type StepResult =
+  | { status: 'success' | 'repaired'; step: PlanStep }
+  | { status: 'failed'; kind: PlannerErrorKind; reasons: string[]; issues: ValidationIssue[] };
+
+export type RewriteResult =
+  | { status: 'success' | 'repaired'; rewrite: PromptRewrite }
+  | { status: 'failed'; kind: PlannerErrorKind; reasons: string[]; issues: ValidationIssue[] };
+
+export type AnalysisResult =
+  | { status: 'success'; analysis: LegacyAnalysis }
+  | { status: 'repaired'; analysis: LegacyAnalysis; attempts: number; issues: ValidationIssue[] }
+  | { status: 'failed'; kind: PlannerErrorKind; reasons: string[]; issues: ValidationIssue[] };
+
+export type ReviewResult =
+  | { status: 'success' | 'repaired'; review: LogicReview }
+  | { status: 'failed'; kind: PlannerErrorKind; reasons: string[]; issues: ValidationIssue[] };
+
+export type ClosingResult =
+  | { status: 'success' | 'repaired'; docs: ClosingDocs }
+  | { status: 'failed'; kind: PlannerErrorKind; reasons: string[]; issues: ValidationIssue[] };
+
+// A planner prompt with {{variable}} placeholders. Each saved edit is a new version.
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  name: string;
+  body: string;
+  // Shipped with the app and read-only; teams tune a copy.
+  builtIn: boolean;
+  // Deleted from the picker; its versions stay so saved plans can still name them.
+  hidden?: boolean;
+}
+
+export interface TemplateRef {
+  id: string;
+  version: number;
+}
+
+// Phase 1: a new project starts from the contract; an existing one is extended, not rewritten.
+export type ProjectKind = 'greenfield' | 'brownfield';
+
+export type StepGranularity = 'fine' | 'balanced' | 'coarse';
+
+// Structured planner inputs that sit next to the free-text task.
+export interface PlanConstraints {
+  // Language, framework and libraries, e.g. "TypeScript, React 19, Vite".
+  techStack: string;
+  // Files or modules the plan should reuse, one per entry.
+  existingModules: string[];
+  // Non-negotiables, e.g. "No new dependencies" or "Keep the /api/orders response shape".
+  hardConstraints: string[];
+  granularity: StepGranularity;
+  // Null when not stated; the planner then infers it from the task.
+  project: ProjectKind | null;
+}
+
+export interface SavedPlan {
+  id: string;
+  name: string;
+  pinned: boolean;
+  createdAt: number;
+  // What produced the plan, so it can be understood (or regenerated) later:
+  // the task, or the file name for a legacy analysis.
+  input: string;
+  lang: Locale;
+  provider: LLMProviderId;
+  model: string;
+  // The prompt template that produced the plan; absent for legacy analyses and older plans.
+  template?: TemplateRef;
+  // The stack and constraints the plan was made under; step rewrites reuse them. Absent for older plans.
+  constraints?: PlanConstraints;
+  plan: PlannerResponse;
+}
@@ -1,6 +1,35 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { formatIssue } from './services/planValidator';
+import { checkSopContent, SOP_CONTENT_FILES } from './services/sopContent';
+import { Locale } from './i18n/locales';
+
+// Fails `vite build` / `vite dev` when an SOP content file is malformed, instead of
+// shipping a page with missing sections. Translation gaps fail the production build but
+// only warn in dev, where the page shows English fallbacks while a translation is in progress.
+const sopContentCheck = (): Plugin => ({
+  name: 'sop-content-check',
+  buildStart() {
+    const files = {} as Record<Locale, string>;
+    for (const [locale, file] of Object.entries(SOP_CONTENT_FILES) as [Locale, string][]) {
+      const filePath = path.resolve(__dirname, file);
+      this.addWatchFile(filePath);
+      files[locale] = fs.readFileSync(filePath, 'utf-8');
+    }
+
+    const { errors, parity } = checkSopContent(files);
+    if (errors.length > 0) {
+      this.error(`Invalid SOP content:\n${errors.map(formatIssue).join('\n')}`);
+    }
+    if (parity.length > 0) {
+      const message = `SOP translations out of sync:\n${parity.map(formatIssue).join('\n')}`;
+      if (this.meta.watchMode) this.warn(message);
+      else this.error(message);
+    }
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +38,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), sopContentCheck()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY)
       },
       resolve: {
         alias: {